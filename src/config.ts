@@ -0,0 +1,271 @@
+import fs from 'fs-extra';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { parseArgs } from 'util';
+import YAML from 'yaml';
+
+// Get __dirname equivalent in ESM
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Interface for the server configuration
+// Settings are layered: defaults, then the config file, then environment variables, then command line flags
+export interface ArxivConfig {
+  endpoints: {
+    apiBaseUrl: string;
+    oaiBaseUrl: string;
+    rssBaseUrl: string;
+    pdfBaseUrl: string;
+    eprintBaseUrl: string;
+    htmlBaseUrl: string;
+  };
+  requests: {
+    userAgent: string;
+    contactEmail: string | null;
+    intervalMs: number;
+    maxRetries: number;
+    apiTimeoutMs: number;
+    downloadTimeoutMs: number;
+  };
+  search: {
+    defaultMaxResults: number;
+  };
+  cache: {
+    pdfDir: string;
+    pdfMaxMb: number;
+    metadataDir: string;
+    paperTtlSeconds: number;
+    searchTtlSeconds: number;
+    sourceDir: string;
+    htmlDir: string;
+    fulltextIndexDir: string;
+  };
+  data: {
+    libraryPath: string;
+    savedSearchesPath: string;
+    harvestDir: string;
+  };
+  server: {
+    transport: 'stdio' | 'http';
+    host: string;
+    port: number;
+    authToken: string | null;
+  };
+}
+
+// Settings read by loadConfig, for testing or embedding
+export interface ConfigSources {
+  env?: NodeJS.ProcessEnv;
+  argv?: string[];
+}
+
+// Defaults. Paths are relative to the install directory, as the caches always have been
+export const DEFAULT_CONFIG: ArxivConfig = {
+  endpoints: {
+    apiBaseUrl: 'https://export.arxiv.org/api/query',
+    oaiBaseUrl: 'https://export.arxiv.org/oai2',
+    rssBaseUrl: 'https://rss.arxiv.org/rss',
+    pdfBaseUrl: 'https://arxiv.org/pdf',
+    eprintBaseUrl: 'https://arxiv.org/e-print',
+    htmlBaseUrl: 'https://arxiv.org/html',
+  },
+  requests: {
+    userAgent: 'arXiv-MCP-Server/0.2.0 (https://github.com/Mnehmos/mnehmos.arxiv.mcp)',
+    contactEmail: null,
+    intervalMs: 3000,
+    maxRetries: 3,
+    apiTimeoutMs: 30000,
+    downloadTimeoutMs: 60000,
+  },
+  search: {
+    defaultMaxResults: 10,
+  },
+  cache: {
+    pdfDir: path.join(__dirname, '..', 'temp', 'pdfs'),
+    pdfMaxMb: 1024,
+    metadataDir: path.join(__dirname, '..', 'temp', 'metadata'),
+    paperTtlSeconds: 604800,
+    searchTtlSeconds: 3600,
+    sourceDir: path.join(__dirname, '..', 'temp', 'source'),
+    htmlDir: path.join(__dirname, '..', 'temp', 'html'),
+    fulltextIndexDir: path.join(__dirname, '..', 'temp', 'fulltext'),
+  },
+  data: {
+    libraryPath: path.join(__dirname, '..', 'data', 'library.json'),
+    savedSearchesPath: path.join(__dirname, '..', 'data', 'saved-searches.json'),
+    harvestDir: path.join(__dirname, '..', 'data', 'harvests'),
+  },
+  server: {
+    transport: 'stdio',
+    host: '127.0.0.1',
+    port: 3000,
+    authToken: null,
+  },
+};
+
+// Environment variable for each setting, as [variable, section, key]
+const ENV_SETTINGS: [string, keyof ArxivConfig, string][] = [
+  ['ARXIV_API_BASE_URL', 'endpoints', 'apiBaseUrl'],
+  ['ARXIV_OAI_BASE_URL', 'endpoints', 'oaiBaseUrl'],
+  ['ARXIV_RSS_BASE_URL', 'endpoints', 'rssBaseUrl'],
+  ['ARXIV_PDF_BASE_URL', 'endpoints', 'pdfBaseUrl'],
+  ['ARXIV_EPRINT_BASE_URL', 'endpoints', 'eprintBaseUrl'],
+  ['ARXIV_HTML_BASE_URL', 'endpoints', 'htmlBaseUrl'],
+  ['ARXIV_USER_AGENT', 'requests', 'userAgent'],
+  ['ARXIV_CONTACT_EMAIL', 'requests', 'contactEmail'],
+  ['ARXIV_REQUEST_INTERVAL_MS', 'requests', 'intervalMs'],
+  ['ARXIV_MAX_RETRIES', 'requests', 'maxRetries'],
+  ['ARXIV_API_TIMEOUT_MS', 'requests', 'apiTimeoutMs'],
+  ['ARXIV_DOWNLOAD_TIMEOUT_MS', 'requests', 'downloadTimeoutMs'],
+  ['ARXIV_DEFAULT_MAX_RESULTS', 'search', 'defaultMaxResults'],
+  ['ARXIV_PDF_CACHE_DIR', 'cache', 'pdfDir'],
+  ['ARXIV_PDF_CACHE_MAX_MB', 'cache', 'pdfMaxMb'],
+  ['ARXIV_METADATA_CACHE_DIR', 'cache', 'metadataDir'],
+  ['ARXIV_PAPER_CACHE_TTL_SECONDS', 'cache', 'paperTtlSeconds'],
+  ['ARXIV_SEARCH_CACHE_TTL_SECONDS', 'cache', 'searchTtlSeconds'],
+  ['ARXIV_SOURCE_CACHE_DIR', 'cache', 'sourceDir'],
+  ['ARXIV_HTML_CACHE_DIR', 'cache', 'htmlDir'],
+  ['ARXIV_FULLTEXT_INDEX_DIR', 'cache', 'fulltextIndexDir'],
+  ['ARXIV_LIBRARY_PATH', 'data', 'libraryPath'],
+  ['ARXIV_SAVED_SEARCHES_PATH', 'data', 'savedSearchesPath'],
+  ['ARXIV_HARVEST_DIR', 'data', 'harvestDir'],
+  ['ARXIV_MCP_TRANSPORT', 'server', 'transport'],
+  ['ARXIV_MCP_HOST', 'server', 'host'],
+  ['ARXIV_MCP_PORT', 'server', 'port'],
+  ['ARXIV_MCP_AUTH_TOKEN', 'server', 'authToken'],
+];
+
+// Settings holding file system paths. Relative paths in a config file are resolved against the file's directory
+const PATH_SETTINGS = new Set(['pdfDir', 'metadataDir', 'sourceDir', 'htmlDir', 'fulltextIndexDir', 'libraryPath', 'savedSearchesPath', 'harvestDir']);
+
+/**
+ * Converts a raw setting to the type of its default
+ * @param value Value from the config file or environment
+ * @param defaultValue The setting's default, which decides its type; null defaults are optional strings
+ * @param name Where the value came from, for error messages
+ */
+function coerceSetting(value: unknown, defaultValue: unknown, name: string): unknown {
+  if (typeof defaultValue === 'number') {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+      throw new Error(`Invalid ${name} "${value}": expected a non-negative number`);
+    }
+    return number;
+  }
+
+  if (value === null && defaultValue === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid ${name}: expected a string`);
+  }
+  return value;
+}
+
+/**
+ * Reads a JSON or YAML config file, chosen by extension
+ * @param filePath Path to the file
+ * @returns The parsed settings, with relative paths made absolute
+ */
+function readConfigFile(filePath: string): Partial<Record<keyof ArxivConfig, Record<string, unknown>>> {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const parsed = /\.ya?ml$/i.test(filePath) ? YAML.parse(content) : JSON.parse(content);
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${filePath} must contain an object`);
+  }
+
+  for (const [section, settings] of Object.entries(parsed)) {
+    if (!(section in DEFAULT_CONFIG)) {
+      throw new Error(`Unknown section "${section}" in config file ${filePath}`);
+    }
+    if (settings === null || typeof settings !== 'object' || Array.isArray(settings)) {
+      throw new Error(`Section "${section}" in config file ${filePath} must be an object`);
+    }
+    for (const [key, value] of Object.entries(settings as Record<string, unknown>)) {
+      if (!(key in DEFAULT_CONFIG[section as keyof ArxivConfig])) {
+        throw new Error(`Unknown setting "${section}.${key}" in config file ${filePath}`);
+      }
+      if (PATH_SETTINGS.has(key) && typeof value === 'string') {
+        (settings as Record<string, unknown>)[key] = path.resolve(path.dirname(filePath), value);
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Loads the server configuration
+ * The config file is named by --config or ARXIV_CONFIG_FILE; --transport, --host and --port override the rest
+ * @param sources Environment and command line arguments to read, defaulting to this process's
+ * @returns The complete configuration
+ */
+export function loadConfig(sources: ConfigSources = {}): ArxivConfig {
+  const env = sources.env ?? process.env;
+  const { values: flags } = parseArgs({
+    args: sources.argv ?? process.argv.slice(2),
+    options: {
+      config: { type: 'string' },
+      transport: { type: 'string' },
+      host: { type: 'string' },
+      port: { type: 'string' },
+    },
+    // Other arguments are left to whatever launched the server
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const config: ArxivConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  const set = (section: keyof ArxivConfig, key: string, value: unknown, name: string) => {
+    const settings = config[section] as unknown as Record<string, unknown>;
+    settings[key] = coerceSetting(value, (DEFAULT_CONFIG[section] as unknown as Record<string, unknown>)[key], name);
+  };
+
+  const configFile = flags.config ?? env.ARXIV_CONFIG_FILE;
+  if (typeof configFile === 'string' && configFile) {
+    const fileSettings = readConfigFile(path.resolve(configFile));
+    for (const [section, settings] of Object.entries(fileSettings)) {
+      for (const [key, value] of Object.entries(settings || {})) {
+        set(section as keyof ArxivConfig, key, value, `${section}.${key}`);
+      }
+    }
+  }
+
+  for (const [variable, section, key] of ENV_SETTINGS) {
+    const value = env[variable];
+    if (value !== undefined && value !== '') {
+      set(section, key, value, variable);
+    }
+  }
+
+  for (const flag of ['transport', 'host', 'port'] as const) {
+    if (flags[flag] !== undefined) {
+      set('server', flag, String(flags[flag]), `--${flag}`);
+    }
+  }
+
+  if (config.server.transport !== 'stdio' && config.server.transport !== 'http') {
+    throw new Error(`Unknown transport "${config.server.transport}". Use stdio or http`);
+  }
+  if (!Number.isInteger(config.server.port) || config.server.port > 65535) {
+    throw new Error(`Invalid port "${config.server.port}"`);
+  }
+  for (const [key, url] of Object.entries(config.endpoints)) {
+    if (!/^https?:\/\/[^/]/.test(url)) {
+      throw new Error(`Invalid endpoints.${key} "${url}": expected an http or https URL`);
+    }
+    // Base URLs are joined with a slash, so a trailing one would double up
+    (config.endpoints as Record<string, string>)[key] = url.replace(/\/+$/, '');
+  }
+
+  return config;
+}
+
+/**
+ * Builds the User-Agent sent with every request to arXiv, with the contact email arXiv asks heavy users for
+ */
+export function getUserAgent(config: ArxivConfig): string {
+  return config.requests.contactEmail
+    ? `${config.requests.userAgent} (mailto:${config.requests.contactEmail})`
+    : config.requests.userAgent;
+}
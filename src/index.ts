@@ -1,17 +1,35 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
+  GetPromptRequestSchema,
+  isInitializeRequest,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+import { XMLParser } from 'fast-xml-parser';
 import fs from 'fs-extra';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 import { createRequire } from 'module';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import * as tar from 'tar';
+import TurndownService from 'turndown';
+import { ArxivConfig, getUserAgent, loadConfig } from './config.js';
 
 // Get __dirname equivalent in ESM
 const __filename = fileURLToPath(import.meta.url);
@@ -20,11 +38,332 @@ const __dirname = path.dirname(__filename);
 // Create require function for CommonJS modules
 const require = createRequire(import.meta.url);
 
-// Base URL for arXiv API
-const ARXIV_API_BASE_URL = 'http://export.arxiv.org/api/query';
+// Settings from the config file, environment and command line (see config.ts)
+const CONFIG = loadConfig();
 
-// Directory for temporary PDF storage - use module directory, not cwd
-const TEMP_PDF_DIR = path.join(__dirname, '..', 'temp', 'pdfs');
+// Largest request body accepted over HTTP
+const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024;
+
+// Names under which a server listening on a loopback or wildcard address is reached from this machine
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', ''];
+
+// Most HTTP sessions kept open at once. Clients that never close theirs would otherwise keep them forever
+const MAX_HTTP_SESSIONS = 100;
+
+// XML namespaces used in arXiv API responses
+const ATOM_NS = 'http://www.w3.org/2005/Atom';
+const ARXIV_NS = 'http://arxiv.org/schemas/atom';
+const OPENSEARCH_NS = 'http://a9.com/-/spec/opensearch/1.1/';
+
+// Parser for Atom feeds - repeatable elements are always arrays, whatever their prefix
+const ATOM_PARSER = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  htmlEntities: true,
+  isArray: (name) => ['entry', 'author', 'link', 'category', 'affiliation'].includes(name.split(':').pop() || ''),
+});
+
+// Parser for OAI-PMH responses - these use default namespaces only, so prefixes are dropped
+const OAI_PARSER = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  htmlEntities: true,
+  removeNSPrefix: true,
+  isArray: (name, _jPath, _isLeafNode, isAttribute) => !isAttribute && ['record', 'version', 'author'].includes(name),
+});
+
+// Parser for announcement feeds - prefixes such as arxiv: and dc: are dropped like in OAI-PMH responses
+const RSS_PARSER = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  htmlEntities: true,
+  removeNSPrefix: true,
+  isArray: (name, _jPath, _isLeafNode, isAttribute) => !isAttribute && ['item', 'category'].includes(name),
+});
+
+// Groups of an announcement, keyed by the feed's announce_type values that fall into each
+const ANNOUNCEMENT_GROUPS: Record<AnnouncementGroup, string[]> = {
+  new: ['new'],
+  cross_lists: ['cross'],
+  replacements: ['replace', 'replace-cross'],
+};
+
+// Records written by one harvest_metadata call unless max_records says otherwise; the rest can be resumed
+const DEFAULT_HARVEST_MAX_RECORDS = 10000;
+
+// Number of IDs sent to the API per request when fetching papers in bulk
+const ID_LIST_CHUNK_SIZE = 50;
+
+// Most IDs accepted by one get_papers call
+const MAX_BATCH_IDS = 500;
+
+// Valid arXiv identifiers: new-style (2104.13478, 2104.13478v2) and old-style (cs/0001001, math.GT/0309136v1)
+const ARXIV_ID_PATTERN = /^(\d{4}\.\d{4,5}|[a-z-]+(\.[A-Z]{2})?\/\d{7})(v\d+)?$/;
+
+// Lowercase name particles that belong to an author's family name (e.g., Ludwig van Beethoven)
+const NAME_PARTICLES = new Set(['da', 'das', 'de', 'del', 'della', 'den', 'der', 'di', 'do', 'dos', 'du', 'la', 'le', 'ten', 'ter', 'van', 'von']);
+
+// Name suffixes kept apart from the family name in citations
+const NAME_SUFFIX_PATTERN = /^(Jr\.?|Sr\.?|II|III|IV)$/;
+
+// Title words skipped when building citation keys
+const CITATION_KEY_STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'from', 'in', 'of', 'on', 'the', 'to', 'towards', 'with']);
+
+// arXiv identifiers inside citation text: arXiv:ID, arxiv.org URLs, DBLP's "CoRR abs/ID", arXiv DOIs and bare old-style IDs
+const CITED_ARXIV_ID_PATTERNS = [
+  /(?:arXiv:\s*|arxiv\.org\/(?:abs|pdf)\/)(\d{4}\.\d{4,5}(?:v\d+)?|[a-z-]+(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)/gi,
+  /CoRR,?\s+abs\/(\d{4}\.\d{4,5}(?:v\d+)?)/g,
+  /10\.48550\/arXiv\.(\d{4}\.\d{4,5}(?:v\d+)?)/gi,
+  /\b((?:astro-ph|cond-mat|gr-qc|hep-ex|hep-lat|hep-ph|hep-th|math-ph|nlin|nucl-ex|nucl-th|physics|quant-ph|math|cs|q-bio|q-fin|stat)(?:\.[A-Z]{2})?\/\d{7}(?:v\d+)?)\b/g,
+];
+
+// DOIs inside citation text, with or without a doi.org prefix
+const CITED_DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"<>]+/g;
+
+// Largest sentence-by-sentence comparison diffPaperVersions will attempt
+const MAX_DIFF_CELLS = 25000000;
+
+// Largest comparison aligned with a full table (4 bytes a cell). Larger ones are split in halves in linear space
+const MAX_DIFF_TABLE_CELLS = 1000000;
+
+// File in the PDF cache directory that holds the citation graph of the cached papers
+const CITATION_GRAPH_FILE = 'citation-graph.json';
+
+// Search field names (and their arXiv prefixes) accepted in structured and raw queries
+const SEARCH_FIELD_PREFIXES: Record<string, string> = {
+  all: 'all',
+  title: 'ti',
+  ti: 'ti',
+  author: 'au',
+  au: 'au',
+  abstract: 'abs',
+  abs: 'abs',
+  comment: 'co',
+  co: 'co',
+  journal_ref: 'jr',
+  jr: 'jr',
+  category: 'cat',
+  cat: 'cat',
+  report_number: 'rn',
+  rn: 'rn',
+  id: 'id',
+};
+
+// Input schema properties for the date range filters shared by the search tools
+const DATE_RANGE_PROPERTIES = {
+  submitted_after: {
+    type: 'string',
+    description: 'Only papers first submitted on or after this ISO date or date-time (e.g., 2025-01-15 or 2025-01-15T12:00:00Z)',
+  },
+  submitted_before: {
+    type: 'string',
+    description: 'Only papers first submitted on or before this ISO date or date-time',
+  },
+  updated_after: {
+    type: 'string',
+    description: 'Only papers last updated on or after this ISO date or date-time',
+  },
+  updated_before: {
+    type: 'string',
+    description: 'Only papers last updated on or before this ISO date or date-time',
+  },
+};
+
+// Input schema property for skipping the metadata cache
+const BYPASS_CACHE_PROPERTY = {
+  bypass_cache: {
+    type: 'boolean',
+    description: 'Fetch fresh results from arXiv instead of the local metadata cache (default false)',
+  },
+};
+
+// Output schema for a paper as returned by every metadata tool
+const PAPER_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Abstract page URL, as arXiv identifies the entry' },
+    title: { type: 'string' },
+    summary: { type: 'string', description: 'Abstract' },
+    authors: { type: 'array', items: { type: 'string' } },
+    author_details: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, affiliations: { type: 'array', items: { type: 'string' } } },
+        required: ['name', 'affiliations'],
+      },
+    },
+    published: { type: 'string', description: 'ISO date-time of the first version' },
+    updated: { type: 'string', description: 'ISO date-time of the latest version' },
+    categories: { type: 'array', items: { type: 'string' } },
+    primary_category: { type: ['string', 'null'] },
+    doi: { type: ['string', 'null'] },
+    journal_ref: { type: ['string', 'null'] },
+    comment: { type: ['string', 'null'] },
+    links: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { href: { type: 'string' }, rel: { type: 'string' }, type: { type: 'string' }, title: { type: 'string' } },
+        required: ['href', 'rel', 'type'],
+      },
+    },
+    arxiv_id: { type: 'string', description: 'arXiv ID, with the version when arXiv reports one (e.g., 2104.13478v2)' },
+    version: { type: ['integer', 'null'] },
+  },
+  required: [
+    'id', 'title', 'summary', 'authors', 'author_details', 'published', 'updated', 'categories',
+    'primary_category', 'doi', 'journal_ref', 'comment', 'links', 'arxiv_id', 'version',
+  ],
+};
+
+// Output schema for a page of arXiv API results
+const FEED_SCHEMA = {
+  type: 'object',
+  properties: {
+    feed_title: { type: 'string' },
+    total_results: { type: 'integer', description: 'Number of papers matching the query, across all pages' },
+    start_index: { type: 'integer' },
+    items_per_page: { type: 'integer' },
+    papers: { type: 'array', items: PAPER_SCHEMA },
+  },
+  required: ['feed_title', 'total_results', 'start_index', 'items_per_page', 'papers'],
+};
+
+// Output schema for a paper in a daily announcement feed
+const ANNOUNCED_PAPER_SCHEMA = {
+  type: 'object',
+  properties: {
+    arxiv_id: { type: 'string' },
+    version: { type: ['integer', 'null'] },
+    title: { type: 'string' },
+    authors: { type: 'array', items: { type: 'string' } },
+    categories: { type: 'array', items: { type: 'string' } },
+    announce_type: { type: 'string', description: 'new, cross, replace or replace-cross' },
+    link: { type: 'string' },
+    summary: { type: 'string', description: 'Abstract, unless include_abstracts is false' },
+  },
+  required: ['arxiv_id', 'version', 'title', 'authors', 'categories', 'announce_type', 'link'],
+};
+
+// Output schema for a paper in the personal library
+const LIBRARY_ENTRY_SCHEMA = {
+  type: 'object',
+  properties: {
+    paper_id: { type: 'string' },
+    collections: { type: 'array', items: { type: 'string' } },
+    tags: { type: 'array', items: { type: 'string' } },
+    notes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { text: { type: 'string' }, added_at: { type: 'string' } },
+        required: ['text', 'added_at'],
+      },
+    },
+    saved_at: { type: 'string' },
+    updated_at: { type: 'string' },
+    metadata: PAPER_SCHEMA,
+  },
+  required: ['paper_id', 'collections', 'tags', 'notes', 'saved_at', 'updated_at'],
+};
+
+// Output schema for a saved search, described without its list of seen IDs
+const SAVED_SEARCH_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    search: { type: 'object', description: 'search_papers arguments' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' },
+    last_checked_at: { type: ['string', 'null'] },
+    seen_count: { type: 'integer' },
+  },
+  required: ['name', 'search', 'created_at', 'updated_at', 'last_checked_at', 'seen_count'],
+};
+
+// Output schema for a section of a paper's text
+const PAPER_SECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['title', 'abstract', 'section', 'acknowledgements', 'references', 'appendix'] },
+    heading: { type: 'string' },
+    number: { type: 'string' },
+    level: { type: 'integer' },
+    text: { type: 'string' },
+  },
+  required: ['type', 'heading', 'text'],
+};
+
+// Output schema for one side of a version diff
+const VERSION_SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    arxiv_id: { type: 'string' },
+    updated: { type: 'string' },
+    comment: { type: ['string', 'null'] },
+  },
+  required: ['arxiv_id', 'updated', 'comment'],
+};
+
+// URI scheme for papers exposed as MCP resources
+const PAPER_RESOURCE_PREFIX = 'arxiv://paper/';
+
+// Converter from arXiv's HTML rendering (LaTeXML) to Markdown
+// Math keeps its LaTeX from the alttext attribute, and links to anchors in the page keep only their text
+const HTML_CONVERTER = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-' });
+HTML_CONVERTER.remove(['script', 'style', 'nav', 'header', 'footer', 'button']);
+HTML_CONVERTER.addRule('math', {
+  filter: (node) => node.nodeName.toLowerCase() === 'math',
+  replacement: (_content, node) => {
+    const element = node as HTMLElement;
+    const tex = (element.getAttribute('alttext') || element.textContent || '').trim();
+    return element.getAttribute('display') === 'block' ? `\n\n$$${tex}$$\n\n` : `$${tex}$`;
+  },
+});
+HTML_CONVERTER.addRule('anchorLinks', {
+  filter: (node) => node.nodeName === 'A' && (node.getAttribute('href') || '').startsWith('#'),
+  // Citation links read [1]; without a link around them the brackets need no escaping
+  replacement: (content) => content.replace(/\\([[\]])/g, '$1'),
+});
+
+// Seen IDs remembered per saved search; the oldest are forgotten beyond this
+const MAX_SEEN_IDS = 5000;
+
+// BM25 ranking parameters: term frequency saturation and document length normalisation
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words too common to be worth indexing
+const FULLTEXT_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'which', 'with',
+]);
+
+// Characters of context on each side of a match in search_library snippets
+const SNIPPET_RADIUS = 120;
+
+// Deepest chain of \input/\include files followed when assembling LaTeX source
+const MAX_TEX_INPUT_DEPTH = 20;
+
+// Least time between sweeps of expired entries from the metadata cache
+const METADATA_CACHE_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// Base delay for exponential backoff between retries
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Longest Retry-After the server will wait out before giving up on a request
+const MAX_RETRY_AFTER_MS = 120000;
+
+// HTTP statuses worth retrying
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+
+// Default number of characters per chunk when paging through paper content
+const DEFAULT_CHUNK_SIZE = 20000;
 
 // Interface for search parameters
 interface SearchParams {
@@ -36,13 +375,95 @@ interface SearchParams {
   sortOrder?: string;
 }
 
-// Interface for paper search arguments
-interface SearchPapersArgs {
-  query?: string;
-  category?: string;
-  author?: string;
+// Boolean operators supported by the arXiv query syntax
+type QueryOperator = 'AND' | 'OR' | 'ANDNOT';
+
+// Interface for a single field search term in a structured query
+interface QueryTerm {
+  field: string;
+  value: string;
+}
+
+// Interface for a group of terms combined with one operator
+interface QueryGroup {
+  op: QueryOperator;
+  terms: QueryNode[];
+}
+
+// Node of a structured boolean search query
+type QueryNode = QueryTerm | QueryGroup;
+
+// Interface for submission and update date filters (ISO 8601 dates or date-times)
+interface DateRangeArgs {
+  submitted_after?: string;
+  submitted_before?: string;
+  updated_after?: string;
+  updated_before?: string;
+}
+
+// Interface for the per-call metadata cache bypass shared by the metadata tools
+interface CacheArgs {
+  bypass_cache?: boolean;
+}
+
+// Interface for an author of a paper
+interface ArxivAuthor {
+  name: string;
+  affiliations: string[];
+}
+
+// Interface for a link of a paper (abstract page, PDF, DOI)
+interface ArxivLink {
+  href: string;
+  rel: string;
+  type: string;
   title?: string;
-  abstract?: string;
+}
+
+// Interface for a paper parsed from an arXiv Atom entry
+interface ArxivPaper {
+  id: string;
+  title: string;
+  summary: string;
+  authors: string[];
+  author_details: ArxivAuthor[];
+  published: string;
+  updated: string;
+  categories: string[];
+  primary_category: string | null;
+  doi: string | null;
+  journal_ref: string | null;
+  comment: string | null;
+  links: ArxivLink[];
+  arxiv_id: string;
+  version: number | null;
+}
+
+// Interface for a parsed arXiv API response
+interface ArxivFeed {
+  feed_title: string;
+  total_results: number;
+  start_index: number;
+  items_per_page: number;
+  papers: ArxivPaper[];
+}
+
+// Interface for an arXiv API response that could not be parsed
+interface ArxivParseError {
+  error: string;
+  raw_response: string;
+}
+
+// Interface for paper search arguments
+// Field values may be a list, in which case any of them matches (OR)
+interface SearchPapersArgs extends DateRangeArgs, CacheArgs {
+  query?: string | string[];
+  category?: string | string[];
+  author?: string | string[];
+  title?: string | string[];
+  abstract?: string | string[];
+  query_expression?: string;
+  query_tree?: QueryNode;
   start?: number;
   max_results?: number;
   sort_by?: string;
@@ -50,12 +471,92 @@ interface SearchPapersArgs {
 }
 
 // Interface for get paper arguments
-interface GetPaperArgs {
+interface GetPaperArgs extends CacheArgs {
+  paper_id: string;
+  version?: number | string;
+}
+
+// Interface for batch get papers arguments
+interface GetPapersArgs extends CacheArgs {
+  paper_ids: string[];
+}
+
+// Interface for the outcome of one ID in a batch lookup
+interface BatchPaperResult {
+  paper_id: string;
+  status: 'found' | 'not_found' | 'invalid_id' | 'error';
+  paper?: ArxivPaper;
+  error?: string;
+}
+
+// Supported citation export formats
+type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+// Interface for citation export arguments
+interface ExportCitationsArgs extends CacheArgs {
+  paper_ids?: string[];
+  search?: SearchPapersArgs;
+  format?: CitationFormat;
+}
+
+// Interface for an author name split for citation formats
+interface AuthorName {
+  family: string;
+  given: string;
+  suffix?: string;
+}
+
+// Interface for list paper versions arguments
+interface ListPaperVersionsArgs {
   paper_id: string;
 }
 
+// Interface for diff paper versions arguments
+interface DiffPaperVersionsArgs {
+  paper_id: string;
+  from_version: number | string;
+  to_version: number | string;
+  include_full_text?: boolean;
+}
+
+// Interface for harvest metadata arguments
+interface HarvestMetadataArgs {
+  set?: string;
+  from?: string;
+  until?: string;
+  output_path?: string;
+  max_records?: number;
+  resumption_token?: string;
+}
+
+// Interface for one page of an OAI-PMH ListRecords response
+interface OaiRecordsPage {
+  records: any[];
+  resumption_token: string | null;
+  complete_list_size: number | null;
+}
+
+// Interface for one version of a paper from its submission history
+interface PaperVersion {
+  version: string;
+  submitted: string;
+  size: string | null;
+}
+
+// Interface for one item of an aligned diff
+interface DiffOperation {
+  type: 'equal' | 'removed' | 'added';
+  item: string;
+}
+
+// Interface for a run of consecutive changes between two texts
+interface DiffHunk {
+  removed: string[];
+  added: string[];
+}
+
 // Interface for category search arguments
-interface SearchByCategoryArgs {
+interface SearchByCategoryArgs extends DateRangeArgs, CacheArgs {
   category: string;
   start?: number;
   max_results?: number;
@@ -63,16 +564,308 @@ interface SearchByCategoryArgs {
   sort_order?: string;
 }
 
+// Groups a daily announcement is split into
+type AnnouncementGroup = 'new' | 'cross_lists' | 'replacements';
+
+// Interface for get new submissions arguments
+interface GetNewSubmissionsArgs {
+  category: string | string[];
+  groups?: AnnouncementGroup[];
+  include_abstracts?: boolean;
+}
+
+// Interface for how the server is reached
+type TransportOptions = ArxivConfig['server'];
+
+// Interface for a client connected over HTTP. Each has its own MCP server on top of the shared ArxivServer state
+interface HttpSession {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+}
+
+// Interface for a paper in a daily announcement feed
+interface AnnouncedPaper {
+  arxiv_id: string;
+  version: number | null;
+  title: string;
+  authors: string[];
+  categories: string[];
+  announce_type: string;
+  link: string;
+  summary?: string;
+}
+
+// Interface for evict cached papers arguments
+interface EvictCachedPapersArgs {
+  paper_id?: string;
+  all?: boolean;
+}
+
+// Interface for a PDF in the local cache
+interface CachedPdf {
+  paper_id: string;
+  path: string;
+  size_bytes: number;
+  last_accessed: Date;
+}
+
 // Interface for get paper content arguments
 interface GetPaperContentArgs {
   paper_id: string;
+  version?: number | string;
+  extractor?: 'pdf' | 'html' | 'auto';
+  format?: 'text' | 'sections';
+  section?: string;
+  pages?: string;
+  chunk_index?: number;
+  chunk_size?: number;
+}
+
+// Interface for get paper source arguments
+interface GetPaperSourceArgs {
+  paper_id: string;
+  version?: number | string;
+  format?: 'latex' | 'text';
+}
+
+// Result of a tool call. A type rather than an interface, so it is assignable to the SDK's result types
+type ToolResult = {
+  content: { type: string; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+// Interface for a note attached to a saved paper
+interface LibraryNote {
+  text: string;
+  added_at: string;
+}
+
+// Interface for a paper in the personal library, with metadata snapshotted when it was saved
+interface LibraryEntry {
+  paper_id: string;
+  collections: string[];
+  tags: string[];
+  notes: LibraryNote[];
+  saved_at: string;
+  updated_at: string;
+  metadata: ArxivPaper;
+}
+
+// Interface for the persisted personal library, keyed by unversioned arXiv ID
+interface Library {
+  papers: Record<string, LibraryEntry>;
+}
+
+// Interface for save paper arguments
+interface SavePaperArgs extends CacheArgs {
+  paper_id: string;
+  collection?: string;
+  tags?: string[];
+  note?: string;
+  refresh_metadata?: boolean;
+}
+
+// Interface for update saved paper arguments
+interface UpdateSavedPaperArgs {
+  paper_id: string;
+  add_tags?: string[];
+  remove_tags?: string[];
+  add_collections?: string[];
+  remove_collections?: string[];
+  note?: string;
+  clear_notes?: boolean;
+}
+
+// Interface for remove saved paper arguments
+interface RemoveSavedPaperArgs {
+  paper_id: string;
+  collection?: string;
+}
+
+// Interface for list library arguments
+interface ListLibraryArgs {
+  collection?: string;
+  tags?: string[];
+  query?: string;
+  include_metadata?: boolean;
+}
+
+// Interface for a saved search and what it has already returned
+interface SavedSearch {
+  name: string;
+  search: SearchPapersArgs;
+  created_at: string;
+  updated_at: string;
+  last_checked_at: string | null;
+  seen_ids: string[];
+}
+
+// Interface for the persisted saved searches, keyed by name
+interface SavedSearches {
+  searches: Record<string, SavedSearch>;
+}
+
+// Interface for save search arguments
+interface SaveSearchArgs {
+  name: string;
+  search: SearchPapersArgs;
+}
+
+// Interface for check saved search arguments
+interface CheckSavedSearchArgs {
+  name: string;
+  mark_seen?: boolean;
+}
+
+// Interface for delete saved search arguments
+interface DeleteSavedSearchArgs {
+  name: string;
+}
+
+// Interface for search library arguments
+interface SearchLibraryArgs {
+  query: string;
+  limit?: number;
+  index_cached_pdfs?: boolean;
+}
+
+// Interface for the full-text index: documents and term postings (term -> paper ID -> frequency)
+interface FulltextIndex {
+  documents: Map<string, { length: number; characters: number; hash?: string; indexed_at: string }>;
+  postings: Map<string, Map<string, number>>;
+}
+
+// Kinds of section recognised when splitting extracted paper text
+type PaperSectionType =
+  | 'title'
+  | 'abstract'
+  | 'section'
+  | 'acknowledgements'
+  | 'references'
+  | 'appendix';
+
+// Interface for a single section of a paper's extracted text
+interface PaperSection {
+  type: PaperSectionType;
+  heading: string;
+  number?: string;
+  level?: number;
+  text: string;
+}
+
+// Interface for get paper references arguments
+interface GetPaperReferencesArgs extends CacheArgs {
+  paper_id: string;
+  version?: number | string;
+  resolve_arxiv?: boolean;
+}
+
+// Interface for one entry of a paper's reference list
+interface PaperReference {
+  index: number;
+  label?: string;
+  text: string;
+  arxiv_ids: string[];
+  dois: string[];
+  arxiv_papers?: ArxivPaper[];
+}
+
+// Interface for citation graph query arguments
+interface QueryCitationGraphArgs {
+  query: 'cited_by' | 'references' | 'most_cited';
+  paper_id?: string;
+  paper_ids?: string[];
+  limit?: number;
+  rebuild?: boolean;
+}
+
+// Interface for the outgoing citations of one cached paper
+interface CitationGraphNode {
+  cites: string[];
+  dois: string[];
+  sources: string[];
+  indexed_at: string;
+}
+
+// Interface for the persisted citation graph, keyed by unversioned arXiv ID
+interface CitationGraph {
+  papers: Record<string, CitationGraphNode>;
 }
 
 export class ArxivServer {
   private server: Server;
 
+  // HTTP transport, when running as a shared instance, and its connected clients by session ID, least recently used first
+  private httpServer: http.Server | null = null;
+  private httpSessions = new Map<string, HttpSession>();
+  private maxHttpSessions = MAX_HTTP_SESSIONS;
+
+  // arXiv endpoints and how requests to them are made
+  private endpoints = CONFIG.endpoints;
+  private userAgent = getUserAgent(CONFIG);
+  private apiTimeoutMs = CONFIG.requests.apiTimeoutMs;
+  private downloadTimeoutMs = CONFIG.requests.downloadTimeoutMs;
+
+  // Results per search when max_results is not given
+  private defaultMaxResults = CONFIG.search.defaultMaxResults;
+
+  // Disk cache for downloaded PDFs. Least recently used PDFs are evicted past the size limit; 0 means no limit
+  private pdfCacheDir = CONFIG.cache.pdfDir;
+  private pdfCacheMaxBytes = CONFIG.cache.pdfMaxMb * 1024 * 1024;
+
+  // Personal library of saved papers and saved searches.
+  // Read-modify-writes of these files are chained like the full-text index
+  private libraryPath = CONFIG.data.libraryPath;
+  private savedSearchesPath = CONFIG.data.savedSearchesPath;
+  private dataFileChain: Promise<unknown> = Promise.resolve();
+
+  // Full-text index over papers read with get_paper_content, loaded on first use.
+  // Updates are chained so concurrent reads of different papers do not overwrite each other
+  private fulltextIndexDir = CONFIG.cache.fulltextIndexDir;
+  private fulltextIndex: FulltextIndex | null = null;
+  private fulltextIndexChain: Promise<void> = Promise.resolve();
+
+  // Disk cache for HTML renderings
+  private htmlCacheDir = CONFIG.cache.htmlDir;
+
+  // Output directory for metadata harvests
+  private harvestDir = CONFIG.data.harvestDir;
+
+  // Disk cache for unpacked e-print sources
+  private sourceCacheDir = CONFIG.cache.sourceDir;
+
+  // Disk cache for arXiv API query results. Paper lookups by ID change rarely and stay fresh much longer
+  // than searches, whose results change daily. A TTL of 0 disables caching for that kind of query
+  private metadataCacheDir = CONFIG.cache.metadataDir;
+  private paperCacheTtlSeconds = CONFIG.cache.paperTtlSeconds;
+  private searchCacheTtlSeconds = CONFIG.cache.searchTtlSeconds;
+  private lastMetadataCacheSweepAt = 0;
+
+  // Shared request queue - every arXiv request waits for the one before it, at least
+  // requestIntervalMs apart as arXiv asks. Transient failures (network error, 429, 5xx) are retried
+  private requestChain: Promise<void> = Promise.resolve();
+  private nextRequestAt = 0;
+  private requestIntervalMs = CONFIG.requests.intervalMs;
+  private maxRetries = CONFIG.requests.maxRetries;
+  private retryBaseDelayMs = RETRY_BASE_DELAY_MS;
+
   constructor() {
-    this.server = new Server(
+    this.server = this.createServer();
+
+    process.on('SIGINT', async () => {
+      await this.server.close();
+      await this.stopHttpServer();
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Creates an MCP server with every handler registered
+   * The stdio transport uses one; over HTTP each session gets its own, all sharing this instance's caches and request queue
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'arxiv-mcp-server',
         version: '0.2.0',
@@ -80,18 +873,19 @@ export class ArxivServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
 
-    this.setupToolHandlers();
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
 
     // Error handling
-    this.server.onerror = (error) => console.error('[MCP Error]', error);
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+    server.onerror = (error) => console.error('[MCP Error]', error);
+    return server;
   }
 
   /**
@@ -102,44 +896,105 @@ export class ArxivServer {
   public _testMethods = {
     searchPapers: this.searchPapers.bind(this),
     getPaper: this.getPaper.bind(this),
+    getPapers: this.getPapers.bind(this),
+    extractReferences: this.extractReferences.bind(this),
+    getPaperReferences: this.getPaperReferences.bind(this),
+    getPaperSource: this.getPaperSource.bind(this),
+    fetchHtmlMarkdown: this.fetchHtmlMarkdown.bind(this),
+    savePaper: this.savePaper.bind(this),
+    updateSavedPaper: this.updateSavedPaper.bind(this),
+    removeSavedPaper: this.removeSavedPaper.bind(this),
+    listLibrary: this.listLibrary.bind(this),
+    saveSearch: this.saveSearch.bind(this),
+    checkSavedSearch: this.checkSavedSearch.bind(this),
+    listSavedSearches: this.listSavedSearches.bind(this),
+    deleteSavedSearch: this.deleteSavedSearch.bind(this),
+    tokenize: this.tokenize.bind(this),
+    indexPaperText: this.indexPaperText.bind(this),
+    searchLibrary: this.searchLibrary.bind(this),
+    htmlToMarkdown: this.htmlToMarkdown.bind(this),
+    findMainTexFile: this.findMainTexFile.bind(this),
+    resolveTexInputs: this.resolveTexInputs.bind(this),
+    cleanLatex: this.cleanLatex.bind(this),
+    updateCitationGraph: this.updateCitationGraph.bind(this),
+    queryCitationGraph: this.queryCitationGraph.bind(this),
+    exportCitations: this.exportCitations.bind(this),
+    getCitationKey: this.getCitationKey.bind(this),
+    splitAuthorName: this.splitAuthorName.bind(this),
     searchByCategory: this.searchByCategory.bind(this),
     getPaperContent: this.getPaperContent.bind(this),
     queryArxiv: this.queryArxiv.bind(this),
+    arxivGet: this.arxivGet.bind(this),
     processArxivResponse: this.processArxivResponse.bind(this),
     downloadPdf: this.downloadPdf.bind(this),
+    getCachedPdfs: this.getCachedPdfs.bind(this),
+    enforcePdfCacheLimit: this.enforcePdfCacheLimit.bind(this),
+    listPaperVersions: this.listPaperVersions.bind(this),
+    getNewSubmissions: this.getNewSubmissions.bind(this),
+    oaiRecordToPaper: this.oaiRecordToPaper.bind(this),
+    harvestMetadata: this.harvestMetadata.bind(this),
+    fetchPaperVersions: this.fetchPaperVersions.bind(this),
+    diffPaperVersions: this.diffPaperVersions.bind(this),
+    diffSequences: this.diffSequences.bind(this),
+    diffOperations: this.diffOperations.bind(this),
+    renderInlineDiff: this.renderInlineDiff.bind(this),
+    listCachedPapers: this.listCachedPapers.bind(this),
+    evictCachedPapers: this.evictCachedPapers.bind(this),
     extractTextFromPdf: this.extractTextFromPdf.bind(this),
+    extractPagesFromPdf: this.extractPagesFromPdf.bind(this),
+    parsePageRange: this.parsePageRange.bind(this),
     buildSearchQuery: this.buildSearchQuery.bind(this),
+    parseQueryExpression: this.parseQueryExpression.bind(this),
+    serializeQueryNode: this.serializeQueryNode.bind(this),
+    buildDateRangeTerms: this.buildDateRangeTerms.bind(this),
+    splitIntoSections: this.splitIntoSections.bind(this),
+    listResources: this.listResources.bind(this),
+    listResourceTemplates: this.listResourceTemplates.bind(this),
+    readResource: this.readResource.bind(this),
+    listPrompts: this.listPrompts.bind(this),
+    getPrompt: this.getPrompt.bind(this),
+    startHttpServer: this.startHttpServer.bind(this),
+    stopHttpServer: this.stopHttpServer.bind(this),
   };
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         {
           name: 'search_papers',
-          description: 'Search for papers on arXiv by various criteria',
+          description: 'Search for papers on arXiv by various criteria. Field criteria are combined with AND; a list of values for one field matches any of them',
           inputSchema: {
             type: 'object',
             properties: {
               query: {
-                type: 'string',
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
                 description: 'General search query across all fields',
               },
               category: {
-                type: 'string',
-                description: 'arXiv category (e.g., cs.AI, physics.optics)',
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+                description: 'arXiv category (e.g., cs.AI, physics.optics), or a list such as ["cs.LG", "stat.ML"]',
               },
               author: {
-                type: 'string',
-                description: 'Author name',
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+                description: 'Author name, or a list of author names',
               },
               title: {
-                type: 'string',
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
                 description: 'Words in the title',
               },
               abstract: {
-                type: 'string',
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
                 description: 'Words in the abstract',
               },
+              query_expression: {
+                type: 'string',
+                description: 'Raw arXiv boolean query, validated before use, e.g. (au:"Yann LeCun" OR au:Bengio) AND ti:learning ANDNOT cat:cs.CV. Fields: all, ti, au, abs, co, jr, cat, rn, id',
+              },
+              query_tree: {
+                type: 'object',
+                description: 'Structured boolean query. A node is either a term {"field": "author", "value": "Yann LeCun"} or a group {"op": "AND" | "OR" | "ANDNOT", "terms": [nodes...]}. ANDNOT excludes every term after the first',
+              },
+              ...DATE_RANGE_PROPERTIES,
               start: {
                 type: 'number',
                 description: 'Starting index for pagination (0-based)',
@@ -158,8 +1013,10 @@ export class ArxivServer {
                 description: 'Sort order: ascending or descending',
                 enum: ['ascending', 'descending'],
               },
+              ...BYPASS_CACHE_PROPERTY,
             },
           },
+          outputSchema: FEED_SCHEMA,
         },
         {
           name: 'get_paper',
@@ -171,517 +1028,5063 @@ export class ArxivServer {
                 type: 'string',
                 description: 'arXiv paper ID (e.g., 2104.13478 or cs/0001001)',
               },
+              version: {
+                type: ['number', 'string'],
+                description: 'Specific version to fetch (e.g., 2 or "v2"). Defaults to the latest',
+              },
+              ...BYPASS_CACHE_PROPERTY,
             },
             required: ['paper_id'],
           },
+          outputSchema: FEED_SCHEMA,
         },
         {
-          name: 'search_by_category',
-          description: 'Search for papers in a specific arXiv category',
+          name: 'get_papers',
+          description: 'Get details about many papers at once by their arXiv IDs. Results keep the input order and report missing or invalid IDs per item',
           inputSchema: {
             type: 'object',
             properties: {
-              category: {
+              paper_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: `arXiv paper IDs (e.g., ["2104.13478", "cs/0001001"]), at most ${MAX_BATCH_IDS}`,
+              },
+              ...BYPASS_CACHE_PROPERTY,
+            },
+            required: ['paper_ids'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              requested: { type: 'integer' },
+              found: { type: 'integer' },
+              results: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    paper_id: { type: 'string' },
+                    status: { type: 'string', enum: ['found', 'not_found', 'invalid_id', 'error'] },
+                    paper: PAPER_SCHEMA,
+                    error: { type: 'string' },
+                  },
+                  required: ['paper_id', 'status'],
+                },
+              },
+            },
+            required: ['requested', 'found', 'results'],
+          },
+        },
+        {
+          name: 'get_paper_references',
+          description: "Extract a paper's reference list from its PDF, with the arXiv IDs and DOIs found in each citation",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
                 type: 'string',
-                description: 'arXiv category (e.g., cs.AI, physics.optics)',
+                description: 'arXiv paper ID (e.g., 2104.13478)',
               },
-              start: {
-                type: 'number',
-                description: 'Starting index for pagination (0-based)',
+              version: {
+                type: ['number', 'string'],
+                description: 'Specific version to read (e.g., 2 or "v2"). Defaults to the latest',
               },
-              max_results: {
-                type: 'number',
-                description: 'Maximum number of results to return (max 2000)',
+              resolve_arxiv: {
+                type: 'boolean',
+                description: 'Look up the cited arXiv papers and include their metadata (default false)',
               },
-              sort_by: {
+              ...BYPASS_CACHE_PROPERTY,
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: { type: 'string' },
+              total_references: { type: 'integer' },
+              references: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    index: { type: 'integer' },
+                    label: { type: 'string' },
+                    text: { type: 'string' },
+                    arxiv_ids: { type: 'array', items: { type: 'string' } },
+                    dois: { type: 'array', items: { type: 'string' } },
+                    arxiv_papers: { type: 'array', items: PAPER_SCHEMA },
+                  },
+                  required: ['index', 'text', 'arxiv_ids', 'dois'],
+                },
+              },
+            },
+            required: ['paper_id', 'total_references', 'references'],
+          },
+        },
+        {
+          name: 'query_citation_graph',
+          description: 'Query the citation graph built from the reference lists of locally cached papers: who cites a paper, what it cites, or the most cited papers',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
                 type: 'string',
-                description: 'Sort by: relevance, lastUpdatedDate, submittedDate',
-                enum: ['relevance', 'lastUpdatedDate', 'submittedDate'],
+                description: 'cited_by: cached papers citing paper_id; references: what paper_id cites; most_cited: papers cited most often',
+                enum: ['cited_by', 'references', 'most_cited'],
               },
-              sort_order: {
+              paper_id: {
                 type: 'string',
-                description: 'Sort order: ascending or descending',
-                enum: ['ascending', 'descending'],
+                description: 'arXiv paper ID, required for cited_by and references',
+              },
+              paper_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only count citations from these papers (defaults to every cached paper)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Number of most cited papers to return (default 10)',
+              },
+              rebuild: {
+                type: 'boolean',
+                description: 'Re-extract references from every cached PDF instead of only new ones (default false)',
               },
             },
-            required: ['category'],
+            required: ['query'],
+          },
+          outputSchema: {
+            type: 'object',
+            description: 'references returns paper_id, cites and dois; cited_by returns paper_id, cited_by and count; most_cited returns papers_considered and most_cited',
+            properties: {
+              paper_id: { type: 'string' },
+              cites: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { paper_id: { type: 'string' }, cached: { type: 'boolean' } },
+                  required: ['paper_id', 'cached'],
+                },
+              },
+              dois: { type: 'array', items: { type: 'string' } },
+              cited_by: { type: 'array', items: { type: 'string' } },
+              count: { type: 'integer' },
+              papers_considered: { type: 'integer' },
+              most_cited: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { paper_id: { type: 'string' }, cited_by_count: { type: 'integer' }, cached: { type: 'boolean' } },
+                  required: ['paper_id', 'cited_by_count', 'cached'],
+                },
+              },
+              graph: {
+                type: 'object',
+                properties: {
+                  indexed_papers: { type: 'integer' },
+                  newly_indexed: { type: 'array', items: { type: 'string' } },
+                  failed: { type: 'array', items: { type: 'string' } },
+                },
+                required: ['indexed_papers', 'newly_indexed'],
+              },
+            },
+            required: ['graph'],
           },
         },
         {
-          name: 'get_paper_content',
-          description: 'Get the full text content of a paper by downloading and extracting text from its PDF',
+          name: 'export_citations',
+          description: 'Export citations for papers as BibTeX, RIS or CSL-JSON, either by arXiv ID or for the results of a search',
           inputSchema: {
             type: 'object',
             properties: {
-              paper_id: {
+              paper_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'arXiv paper IDs to cite (e.g., ["2104.13478", "cs/0001001"])',
+              },
+              search: {
+                type: 'object',
+                description: 'search_papers arguments whose results should be cited (e.g., {"author": "Yann LeCun", "max_results": 20})',
+              },
+              format: {
                 type: 'string',
-                description: 'arXiv paper ID (e.g., 2104.13478 or cs/0001001)',
+                description: 'Citation format (default bibtex)',
+                enum: ['bibtex', 'ris', 'csl-json'],
               },
+              ...BYPASS_CACHE_PROPERTY,
             },
-            required: ['paper_id'],
           },
-        },
-      ],
+          outputSchema: {
+            type: 'object',
+            properties: {
+              format: { type: 'string', enum: ['bibtex', 'ris', 'csl-json'] },
+              count: { type: 'integer' },
+              keys: { type: 'array', items: { type: 'string' }, description: 'Citation key of each exported paper, in order' },
+              citations: { type: 'string', description: 'The exported citations, as written to a .bib, .ris or .json file' },
+              not_exported: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['format', 'count', 'keys', 'citations', 'not_exported'],
+          },
+        },
+        {
+          name: 'search_by_category',
+          description: 'Search for papers in a specific arXiv category',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              category: {
+                type: 'string',
+                description: 'arXiv category (e.g., cs.AI, physics.optics)',
+              },
+              ...DATE_RANGE_PROPERTIES,
+              start: {
+                type: 'number',
+                description: 'Starting index for pagination (0-based)',
+              },
+              max_results: {
+                type: 'number',
+                description: 'Maximum number of results to return (max 2000)',
+              },
+              sort_by: {
+                type: 'string',
+                description: 'Sort by: relevance, lastUpdatedDate, submittedDate',
+                enum: ['relevance', 'lastUpdatedDate', 'submittedDate'],
+              },
+              sort_order: {
+                type: 'string',
+                description: 'Sort order: ascending or descending',
+                enum: ['ascending', 'descending'],
+              },
+              ...BYPASS_CACHE_PROPERTY,
+            },
+            required: ['category'],
+          },
+          outputSchema: FEED_SCHEMA,
+        },
+        {
+          name: 'get_new_submissions',
+          description: "Get today's arXiv announcement for a category from its RSS feed, split into new submissions, cross-lists and replacements",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              category: {
+                anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+                description: 'arXiv category or archive (e.g., cs.CL, math), or a list such as ["cs.LG", "stat.ML"]',
+              },
+              groups: {
+                type: 'array',
+                items: { type: 'string', enum: ['new', 'cross_lists', 'replacements'] },
+                description: 'Groups to return (default all)',
+              },
+              include_abstracts: {
+                type: 'boolean',
+                description: 'Include each abstract (default true)',
+              },
+            },
+            required: ['category'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              category: { type: 'string' },
+              announced: { type: ['string', 'null'], description: 'ISO date-time of the announcement' },
+              counts: { type: 'object', additionalProperties: { type: 'integer' } },
+              note: { type: 'string' },
+              new: { type: 'array', items: ANNOUNCED_PAPER_SCHEMA },
+              cross_lists: { type: 'array', items: ANNOUNCED_PAPER_SCHEMA },
+              replacements: { type: 'array', items: ANNOUNCED_PAPER_SCHEMA },
+            },
+            required: ['category', 'announced', 'counts'],
+          },
+        },
+        {
+          name: 'get_paper_content',
+          description: "Get the full text content of a paper, extracted from its PDF or from arXiv's HTML rendering",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478 or cs/0001001)',
+              },
+              version: {
+                type: ['number', 'string'],
+                description: 'Specific version to fetch (e.g., 2 or "v2"). Defaults to the latest',
+              },
+              extractor: {
+                type: 'string',
+                description: 'Text source: pdf (default), html (arXiv HTML rendering as Markdown, keeps headings, lists and math) or auto (html, falling back to pdf when the paper has no HTML version)',
+                enum: ['pdf', 'html', 'auto'],
+              },
+              format: {
+                type: 'string',
+                description: 'Output format: text (whole paper as one string) or sections (JSON list of headed sections)',
+                enum: ['text', 'sections'],
+              },
+              section: {
+                type: 'string',
+                description: 'Only return sections whose heading or type contains this text (e.g., methods, conclusion). Implies format=sections',
+              },
+              pages: {
+                type: 'string',
+                description: 'Page range to extract (1-based), e.g. "3-7", "5", "10-" or "1,4-6". PDF only',
+              },
+              chunk_index: {
+                type: 'number',
+                description: 'Index of the text chunk to return (0-based). The response reports total_chunks',
+              },
+              chunk_size: {
+                type: 'number',
+                description: `Characters per chunk (default ${DEFAULT_CHUNK_SIZE})`,
+              },
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            description: 'text holds the whole paper or the requested chunk; sections replaces it with format=sections',
+            properties: {
+              paper_id: { type: 'string' },
+              extractor: { type: 'string', enum: ['pdf', 'html'] },
+              text: { type: 'string' },
+              sections: { type: 'array', items: PAPER_SECTION_SCHEMA },
+              pages: { type: 'string' },
+              page_numbers: { type: 'array', items: { type: 'integer' } },
+              total_pages: { type: 'integer' },
+              chunk_index: { type: 'integer' },
+              chunk_size: { type: 'integer' },
+              total_chunks: { type: 'integer' },
+              total_characters: { type: 'integer' },
+              next_chunk_index: { type: ['integer', 'null'] },
+            },
+            required: ['paper_id'],
+          },
+        },
+        {
+          name: 'save_paper',
+          description: 'Save a paper to the personal library, optionally into a named collection with tags and a note. Metadata is snapshotted from arXiv',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478)',
+              },
+              collection: {
+                type: 'string',
+                description: 'Collection to add the paper to (e.g., "diffusion reading group")',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Tags to add',
+              },
+              note: {
+                type: 'string',
+                description: 'Free-text note to attach',
+              },
+              refresh_metadata: {
+                type: 'boolean',
+                description: 'Re-fetch the metadata snapshot of an already saved paper (default false)',
+              },
+              ...BYPASS_CACHE_PROPERTY,
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              saved: { type: 'boolean', description: 'Whether the paper was new to the library' },
+              entry: LIBRARY_ENTRY_SCHEMA,
+            },
+            required: ['saved', 'entry'],
+          },
+        },
+        {
+          name: 'update_saved_paper',
+          description: 'Change the tags, collections or notes of a paper in the personal library',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478)',
+              },
+              add_tags: { type: 'array', items: { type: 'string' }, description: 'Tags to add' },
+              remove_tags: { type: 'array', items: { type: 'string' }, description: 'Tags to remove' },
+              add_collections: { type: 'array', items: { type: 'string' }, description: 'Collections to add the paper to' },
+              remove_collections: { type: 'array', items: { type: 'string' }, description: 'Collections to take the paper out of' },
+              note: {
+                type: 'string',
+                description: 'Free-text note to attach',
+              },
+              clear_notes: {
+                type: 'boolean',
+                description: 'Delete the existing notes first (default false)',
+              },
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: LIBRARY_ENTRY_SCHEMA,
+        },
+        {
+          name: 'remove_saved_paper',
+          description: 'Remove a paper from one collection, or from the personal library entirely',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478)',
+              },
+              collection: {
+                type: 'string',
+                description: 'Only remove the paper from this collection',
+              },
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: { type: 'string' },
+              removed_from: { type: 'string', description: 'The collection, or "library" when the paper was removed entirely' },
+            },
+            required: ['paper_id', 'removed_from'],
+          },
+        },
+        {
+          name: 'list_library',
+          description: 'List the papers in the personal library, optionally filtered by collection, tags or text',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              collection: {
+                type: 'string',
+                description: 'Only papers in this collection',
+              },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Only papers with all of these tags',
+              },
+              query: {
+                type: 'string',
+                description: 'Only papers whose title, authors or notes contain this text',
+              },
+              include_metadata: {
+                type: 'boolean',
+                description: 'Include the full metadata snapshot instead of title, authors and dates (default false)',
+              },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              total_saved: { type: 'integer' },
+              collections: { type: 'object', additionalProperties: { type: 'integer' }, description: 'Number of papers in each collection' },
+              count: { type: 'integer' },
+              papers: {
+                type: 'array',
+                description: 'Library entries, with metadata when include_metadata is set and title, authors, published and primary_category otherwise',
+                items: {
+                  ...LIBRARY_ENTRY_SCHEMA,
+                  properties: {
+                    ...LIBRARY_ENTRY_SCHEMA.properties,
+                    title: { type: 'string' },
+                    authors: { type: 'array', items: { type: 'string' } },
+                    published: { type: 'string' },
+                    primary_category: { type: ['string', 'null'] },
+                  },
+                },
+              },
+            },
+            required: ['total_saved', 'collections', 'count', 'papers'],
+          },
+        },
+        {
+          name: 'save_search',
+          description: 'Save a search under a name so check_saved_search can report the papers that appeared since the last check. Saving under an existing name replaces that search',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Name of the saved search (e.g., "diffusion for robotics")',
+              },
+              search: {
+                type: 'object',
+                description: 'search_papers arguments (e.g., {"query": "diffusion", "category": "cs.RO"}). Sorted by submission date, newest first, unless sort_by is given',
+              },
+            },
+            required: ['name', 'search'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              saved: { type: 'boolean', description: 'Whether the name was new' },
+              search: SAVED_SEARCH_SCHEMA,
+            },
+            required: ['saved', 'search'],
+          },
+        },
+        {
+          name: 'check_saved_search',
+          description: 'Run a saved search and return only the papers it has not returned before',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Name of the saved search',
+              },
+              mark_seen: {
+                type: 'boolean',
+                description: 'Remember the returned papers and the check time, so the next check skips them (default true)',
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              last_checked_at: { type: ['string', 'null'] },
+              checked_at: { type: 'string' },
+              total_results: { type: 'integer' },
+              new_count: { type: 'integer' },
+              papers: { type: 'array', items: PAPER_SCHEMA },
+            },
+            required: ['name', 'last_checked_at', 'checked_at', 'total_results', 'new_count', 'papers'],
+          },
+        },
+        {
+          name: 'list_saved_searches',
+          description: 'List the saved searches with when each was last checked',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              count: { type: 'integer' },
+              searches: { type: 'array', items: SAVED_SEARCH_SCHEMA },
+            },
+            required: ['count', 'searches'],
+          },
+        },
+        {
+          name: 'delete_saved_search',
+          description: 'Delete a saved search and what it has seen',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Name of the saved search',
+              },
+            },
+            required: ['name'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              deleted: { type: 'boolean' },
+            },
+            required: ['name', 'deleted'],
+          },
+        },
+        {
+          name: 'search_library',
+          description: 'Full-text search across every paper already read with get_paper_content, ranked by BM25 with matching snippets. Works offline',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Words to search for (e.g., contrastive loss)',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of papers to return (default 10)',
+              },
+              index_cached_pdfs: {
+                type: 'boolean',
+                description: 'First index cached PDFs that are not in the index yet, such as papers read before the index existed (default false)',
+              },
+            },
+            required: ['query'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              query: { type: 'string' },
+              indexed_papers: { type: 'integer' },
+              newly_indexed: { type: 'array', items: { type: 'string' } },
+              results: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    paper_id: { type: 'string' },
+                    score: { type: 'number' },
+                    matched_terms: { type: 'array', items: { type: 'string' } },
+                    snippets: { type: 'array', items: { type: 'string' } },
+                  },
+                  required: ['paper_id', 'score', 'matched_terms', 'snippets'],
+                },
+              },
+            },
+            required: ['query', 'indexed_papers', 'results'],
+          },
+        },
+        {
+          name: 'get_paper_source',
+          description: "Get a paper's LaTeX source from its arXiv e-print, with \\input and \\include files inlined and math intact. Falls back to the PDF text when no source is available",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478)',
+              },
+              version: {
+                type: ['number', 'string'],
+                description: 'Specific version to fetch (e.g., 2 or "v2"). Defaults to the latest',
+              },
+              format: {
+                type: 'string',
+                description: 'latex: the full LaTeX source; text: the document body without comments, preamble and layout commands (default latex)',
+                enum: ['latex', 'text'],
+              },
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: { type: 'string' },
+              main_file: { type: ['string', 'null'], description: 'Main .tex file, or null when only a PDF was submitted and content is its extracted text' },
+              tex_files: { type: 'array', items: { type: 'string' } },
+              format: { type: 'string', enum: ['latex', 'text'] },
+              content: { type: 'string' },
+            },
+            required: ['paper_id', 'main_file', 'tex_files', 'format', 'content'],
+          },
+        },
+        {
+          name: 'list_paper_versions',
+          description: 'List every version of an arXiv paper with its submission date',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478 or cs/0001001)',
+              },
+            },
+            required: ['paper_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: { type: 'string' },
+              latest_version: { type: ['string', 'null'] },
+              versions: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { version: { type: 'string' }, submitted: { type: 'string' }, size: { type: ['string', 'null'] } },
+                  required: ['version', 'submitted', 'size'],
+                },
+              },
+            },
+            required: ['paper_id', 'latest_version', 'versions'],
+          },
+        },
+        {
+          name: 'diff_paper_versions',
+          description: 'Show what changed between two versions of an arXiv paper: title, abstract and (optionally) extracted full text',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID (e.g., 2104.13478 or cs/0001001)',
+              },
+              from_version: {
+                type: ['number', 'string'],
+                description: 'Older version (e.g., 1 or "v1")',
+              },
+              to_version: {
+                type: ['number', 'string'],
+                description: 'Newer version (e.g., 3 or "v3")',
+              },
+              include_full_text: {
+                type: 'boolean',
+                description: 'Also download both PDFs and diff their text sentence by sentence (default true)',
+              },
+            },
+            required: ['paper_id', 'from_version', 'to_version'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: { type: 'string' },
+              from: VERSION_SUMMARY_SCHEMA,
+              to: VERSION_SUMMARY_SCHEMA,
+              title_diff: { type: ['string', 'null'], description: 'Title with [-removed-] and {+added+} words, or null when unchanged' },
+              abstract_diff: { type: ['string', 'null'], description: 'Abstract with [-removed-] and {+added+} words, or null when unchanged' },
+              text_diff: {
+                type: 'object',
+                properties: {
+                  sentences_removed: { type: 'integer' },
+                  sentences_added: { type: 'integer' },
+                  unchanged_sentences: { type: 'integer' },
+                  changes: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        removed: { type: 'array', items: { type: 'string' } },
+                        added: { type: 'array', items: { type: 'string' } },
+                      },
+                      required: ['removed', 'added'],
+                    },
+                  },
+                },
+                required: ['sentences_removed', 'sentences_added', 'unchanged_sentences', 'changes'],
+              },
+            },
+            required: ['paper_id', 'from', 'to', 'title_diff', 'abstract_diff'],
+          },
+        },
+        {
+          name: 'harvest_metadata',
+          description: "Harvest metadata for every paper in an arXiv set over a date range through arXiv's OAI-PMH interface, written to a local JSONL file with one paper per line. Large harvests stop after max_records and return a resumption_token to continue from",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              set: {
+                type: 'string',
+                description: 'OAI-PMH set (e.g., cs, math, physics:hep-th). Omit to harvest all of arXiv',
+              },
+              from: {
+                type: 'string',
+                description: 'Only records created or updated on or after this date (YYYY-MM-DD)',
+              },
+              until: {
+                type: 'string',
+                description: 'Only records created or updated on or before this date (YYYY-MM-DD)',
+              },
+              output_path: {
+                type: 'string',
+                description: 'JSONL file to write inside the harvest directory, relative to it or absolute. Defaults to a name built from set and dates',
+              },
+              max_records: {
+                type: 'number',
+                description: `Stop after roughly this many records (default ${DEFAULT_HARVEST_MAX_RECORDS})`,
+              },
+              resumption_token: {
+                type: 'string',
+                description: 'Continue an earlier harvest, appending to its output_path. set, from and until are taken from the token',
+              },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              output_path: { type: 'string' },
+              records_written: { type: 'integer' },
+              deleted_skipped: { type: 'integer' },
+              requests: { type: 'integer' },
+              complete: { type: 'boolean' },
+              complete_list_size: { type: ['integer', 'null'] },
+              resumption_token: { type: ['string', 'null'], description: 'Pass back with the same output_path to continue an incomplete harvest' },
+            },
+            required: ['output_path', 'records_written', 'deleted_skipped', 'requests', 'complete', 'complete_list_size', 'resumption_token'],
+          },
+        },
+        {
+          name: 'list_cached_papers',
+          description: 'List the papers whose PDFs are in the local cache, with size and last access time',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              cache_dir: { type: 'string' },
+              total_size_bytes: { type: 'integer' },
+              max_size_bytes: { type: ['integer', 'null'] },
+              papers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { paper_id: { type: 'string' }, size_bytes: { type: 'integer' }, last_accessed: { type: 'string' } },
+                  required: ['paper_id', 'size_bytes', 'last_accessed'],
+                },
+              },
+            },
+            required: ['cache_dir', 'total_size_bytes', 'max_size_bytes', 'papers'],
+          },
+        },
+        {
+          name: 'evict_cached_papers',
+          description: 'Remove one paper, or all papers, from the local PDF cache',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              paper_id: {
+                type: 'string',
+                description: 'arXiv paper ID to evict (e.g., 2104.13478)',
+              },
+              all: {
+                type: 'boolean',
+                description: 'Evict every cached PDF',
+              },
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              evicted: { type: 'array', items: { type: 'string' } },
+              freed_bytes: { type: 'integer' },
+            },
+            required: ['evicted', 'freed_bytes'],
+          },
+        },
+      ],
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        switch (request.params.name) {
+          case 'search_papers':
+            return await this.searchPapers(request.params.arguments as unknown as SearchPapersArgs);
+          case 'get_paper':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.getPaper(request.params.arguments as unknown as GetPaperArgs);
+          case 'get_papers':
+            if (!request.params.arguments || !Array.isArray(request.params.arguments.paper_ids)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_ids parameter'
+              );
+            }
+            return await this.getPapers(request.params.arguments as unknown as GetPapersArgs);
+          case 'get_paper_references':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.getPaperReferences(request.params.arguments as unknown as GetPaperReferencesArgs);
+          case 'query_citation_graph': {
+            const args = request.params.arguments;
+            if (!args || !['cited_by', 'references', 'most_cited'].includes(args.query as string)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'query must be cited_by, references or most_cited'
+              );
+            }
+            if (args.query !== 'most_cited' && typeof args.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                `Missing or invalid paper_id parameter for ${args.query}`
+              );
+            }
+            return await this.queryCitationGraph(args as unknown as QueryCitationGraphArgs);
+          }
+          case 'export_citations': {
+            const args = request.params.arguments;
+            const hasIds = Array.isArray(args?.paper_ids);
+            const hasSearch = typeof args?.search === 'object' && args?.search !== null;
+            if (!args || hasIds === hasSearch) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Provide either paper_ids or search'
+              );
+            }
+            if (args.format !== undefined && !['bibtex', 'ris', 'csl-json'].includes(args.format as string)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'format must be bibtex, ris or csl-json'
+              );
+            }
+            return await this.exportCitations(args as unknown as ExportCitationsArgs);
+          }
+          case 'search_by_category':
+            if (!request.params.arguments || typeof request.params.arguments.category !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid category parameter'
+              );
+            }
+            return await this.searchByCategory(request.params.arguments as unknown as SearchByCategoryArgs);
+          case 'get_new_submissions': {
+            const category = request.params.arguments?.category;
+            if (
+              !request.params.arguments ||
+              !(typeof category === 'string' || (Array.isArray(category) && category.every((value) => typeof value === 'string')))
+            ) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid category parameter'
+              );
+            }
+            return await this.getNewSubmissions(request.params.arguments as unknown as GetNewSubmissionsArgs);
+          }
+          case 'get_paper_content':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.getPaperContent(request.params.arguments as unknown as GetPaperContentArgs);
+          case 'save_paper':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.savePaper(request.params.arguments as unknown as SavePaperArgs);
+          case 'update_saved_paper':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.updateSavedPaper(request.params.arguments as unknown as UpdateSavedPaperArgs);
+          case 'remove_saved_paper':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.removeSavedPaper(request.params.arguments as unknown as RemoveSavedPaperArgs);
+          case 'list_library':
+            return await this.listLibrary((request.params.arguments || {}) as unknown as ListLibraryArgs);
+          case 'save_search':
+            if (
+              !request.params.arguments ||
+              typeof request.params.arguments.name !== 'string' ||
+              typeof request.params.arguments.search !== 'object' ||
+              request.params.arguments.search === null
+            ) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid name or search parameter'
+              );
+            }
+            return await this.saveSearch(request.params.arguments as unknown as SaveSearchArgs);
+          case 'check_saved_search':
+            if (!request.params.arguments || typeof request.params.arguments.name !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid name parameter'
+              );
+            }
+            return await this.checkSavedSearch(request.params.arguments as unknown as CheckSavedSearchArgs);
+          case 'list_saved_searches':
+            return await this.listSavedSearches();
+          case 'delete_saved_search':
+            if (!request.params.arguments || typeof request.params.arguments.name !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid name parameter'
+              );
+            }
+            return await this.deleteSavedSearch(request.params.arguments as unknown as DeleteSavedSearchArgs);
+          case 'search_library':
+            if (!request.params.arguments || typeof request.params.arguments.query !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid query parameter'
+              );
+            }
+            return await this.searchLibrary(request.params.arguments as unknown as SearchLibraryArgs);
+          case 'get_paper_source':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.getPaperSource(request.params.arguments as unknown as GetPaperSourceArgs);
+          case 'list_paper_versions':
+            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing or invalid paper_id parameter'
+              );
+            }
+            return await this.listPaperVersions(request.params.arguments as unknown as ListPaperVersionsArgs);
+          case 'diff_paper_versions':
+            if (
+              !request.params.arguments ||
+              typeof request.params.arguments.paper_id !== 'string' ||
+              request.params.arguments.from_version === undefined ||
+              request.params.arguments.to_version === undefined
+            ) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Missing paper_id, from_version or to_version parameter'
+              );
+            }
+            return await this.diffPaperVersions(request.params.arguments as unknown as DiffPaperVersionsArgs);
+          case 'harvest_metadata':
+            return await this.harvestMetadata((request.params.arguments || {}) as unknown as HarvestMetadataArgs);
+          case 'list_cached_papers':
+            return await this.listCachedPapers();
+          case 'evict_cached_papers':
+            if (
+              !request.params.arguments ||
+              (typeof request.params.arguments.paper_id !== 'string' && request.params.arguments.all !== true)
+            ) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Provide a paper_id or set all to true'
+              );
+            }
+            return await this.evictCachedPapers(request.params.arguments as unknown as EvictCachedPapersArgs);
+          default:
+            throw new McpError(
+              ErrorCode.MethodNotFound,
+              `Unknown tool: ${request.params.name}`
+            );
+        }
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `arXiv API error: ${error.response?.data || error.message}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        throw error;
+      }
+    });
+  }
+
+  private setupResourceHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => this.listResources());
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
+      this.listResourceTemplates()
+    );
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+      this.readResource(request.params.uri)
+    );
+  }
+
+  /**
+   * Lists every paper with a cached PDF as metadata and full text resources
+   * @returns Resources for the papers in the PDF cache
+   */
+  private async listResources() {
+    if (!(await fs.pathExists(this.pdfCacheDir))) {
+      return { resources: [] };
+    }
+
+    const files = await fs.readdir(this.pdfCacheDir);
+    const paperIds = files
+      .filter((file) => file.endsWith('.pdf'))
+      .map((file) => this.getPaperIdFromPdfFile(file))
+      .sort();
+
+    return {
+      resources: paperIds.flatMap((paperId) => [
+        {
+          uri: `${PAPER_RESOURCE_PREFIX}${paperId}`,
+          name: `arXiv:${paperId}`,
+          description: `Metadata for arXiv paper ${paperId}`,
+          mimeType: 'application/json',
+        },
+        {
+          uri: `${PAPER_RESOURCE_PREFIX}${paperId}/fulltext`,
+          name: `arXiv:${paperId} (full text)`,
+          description: `Text extracted from the cached PDF of arXiv paper ${paperId}`,
+          mimeType: 'text/plain',
+        },
+      ]),
+    };
+  }
+
+  /**
+   * Lists the URI templates clients can use to address any arXiv paper
+   */
+  private async listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${PAPER_RESOURCE_PREFIX}{id}`,
+          name: 'arXiv paper metadata',
+          description: 'Title, authors, abstract, categories and links for an arXiv paper',
+          mimeType: 'application/json',
+        },
+        {
+          uriTemplate: `${PAPER_RESOURCE_PREFIX}{id}/fulltext`,
+          name: 'arXiv paper full text',
+          description: 'Text extracted from the PDF of an arXiv paper',
+          mimeType: 'text/plain',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Reads a paper resource - metadata from the arXiv API or text extracted from the PDF
+   * @param uri Resource URI, arxiv://paper/{id} or arxiv://paper/{id}/fulltext
+   * @returns The resource contents
+   */
+  private async readResource(uri: string) {
+    const match = uri.startsWith(PAPER_RESOURCE_PREFIX)
+      ? uri.slice(PAPER_RESOURCE_PREFIX.length).match(/^(.+?)(\/fulltext)?$/)
+      : null;
+
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+    }
+
+    // Clients may percent-encode the slash in old-style IDs such as cs/0001001
+    const paperId = decodeURIComponent(match[1]);
+
+    if (match[2]) {
+      const pdfPath = await this.downloadPdf(this.getPdfUrl(paperId), paperId);
+      const textContent = await this.extractTextFromPdf(pdfPath);
+
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'text/plain',
+            text: this.cleanExtractedText(textContent),
+          },
+        ],
+      };
+    }
+
+    const response = await this.queryArxiv({ id_list: paperId });
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => this.listPrompts());
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      this.getPrompt(request.params.name, request.params.arguments)
+    );
+  }
+
+  /**
+   * Lists the research workflow prompts
+   */
+  private async listPrompts() {
+    return {
+      prompts: [
+        {
+          name: 'literature_review',
+          description: 'Write a literature review on a topic from the most relevant arXiv papers',
+          arguments: [
+            { name: 'topic', description: 'Research topic to review', required: true },
+            { name: 'category', description: 'arXiv category to restrict to (e.g., cs.AI)' },
+            { name: 'max_results', description: 'Number of papers to review (default 10)' },
+          ],
+        },
+        {
+          name: 'summarize_paper',
+          description: 'Summarize an arXiv paper from its metadata and full text',
+          arguments: [
+            { name: 'paper_id', description: 'arXiv paper ID (e.g., 2104.13478)', required: true },
+          ],
+        },
+        {
+          name: 'compare_papers',
+          description: 'Compare the goals, methods and findings of two arXiv papers',
+          arguments: [
+            { name: 'id_a', description: 'arXiv ID of the first paper', required: true },
+            { name: 'id_b', description: 'arXiv ID of the second paper', required: true },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Builds a research workflow prompt, embedding the tool output it is based on
+   * @param name Prompt name
+   * @param args Prompt arguments (always strings in MCP)
+   * @returns Prompt description and messages
+   */
+  private async getPrompt(name: string, args: Record<string, string> = {}) {
+    const requireArg = (argName: string) => {
+      if (!args[argName] || !args[argName].trim()) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argName}`);
+      }
+      return args[argName].trim();
+    };
+
+    switch (name) {
+      case 'literature_review': {
+        const topic = requireArg('topic');
+        const maxResults = args.max_results ? parseInt(args.max_results, 10) : 10;
+        const results = await this.searchPapers({
+          query: topic,
+          category: args.category || undefined,
+          max_results: Number.isNaN(maxResults) ? 10 : maxResults,
+        });
+
+        return this.buildPrompt(
+          `Literature review on ${topic}`,
+          [
+            `Write a literature review on "${topic}" based on the arXiv search results below.`,
+            'Group the papers into themes, summarize the contribution of each, note where they agree or disagree, and finish with open problems and promising directions.',
+            'Cite papers by their arXiv ID. Only use information from the results; say so where the abstracts are not enough to judge a paper.',
+          ],
+          [`Search results for "${topic}"`, results.content[0].text]
+        );
+      }
+
+      case 'summarize_paper': {
+        const paperId = requireArg('paper_id');
+        const metadata = await this.getPaper({ paper_id: paperId });
+        const content = await this.getPaperContent({ paper_id: paperId });
+
+        return this.buildPrompt(
+          `Summary of arXiv:${paperId}`,
+          [
+            `Summarize arXiv paper ${paperId} using its metadata and full text below.`,
+            'Cover the problem addressed, the approach, the main results and the limitations, in that order. Keep technical terms but explain any that are not standard in the field.',
+          ],
+          ['Metadata', metadata.content[0].text],
+          [content.isError ? 'Full text (unavailable)' : 'Full text', content.content[0].text]
+        );
+      }
+
+      case 'compare_papers': {
+        const idA = requireArg('id_a');
+        const idB = requireArg('id_b');
+        const paperA = await this.getPaper({ paper_id: idA });
+        const paperB = await this.getPaper({ paper_id: idB });
+
+        return this.buildPrompt(
+          `Comparison of arXiv:${idA} and arXiv:${idB}`,
+          [
+            `Compare arXiv papers ${idA} and ${idB} using their metadata below.`,
+            'Contrast their research questions, methods, datasets or settings, and findings, then explain how the papers relate to each other (building on, competing with, or complementary).',
+            'Use the get_paper_content tool if the abstracts are not enough to answer.',
+          ],
+          [`Paper A (${idA})`, paperA.content[0].text],
+          [`Paper B (${idB})`, paperB.content[0].text]
+        );
+      }
+
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+  }
+
+  /**
+   * Assembles a single user message from instructions and titled blocks of tool output
+   */
+  private buildPrompt(description: string, instructions: string[], ...blocks: [string, string][]) {
+    const text = [
+      instructions.join(' '),
+      ...blocks.map(([title, body]) => `## ${title}\n\n${body}`),
+    ].join('\n\n');
+
+    return {
+      description,
+      messages: [
+        {
+          role: 'user' as const,
+          content: {
+            type: 'text' as const,
+            text,
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Build a properly formatted arXiv search query
+   * Handles multi-word phrases by quoting them
+   * @param prefix The arXiv field prefix (all, au, ti, abs, cat)
+   * @param value The search value
+   * @returns Properly formatted search term
+   */
+  private formatSearchTerm(prefix: string, value: string): string {
+    // Double quotes cannot be escaped inside an arXiv phrase, so drop them and collapse whitespace
+    const trimmed = value.replace(/"/g, ' ').replace(/\s+/g, ' ').trim();
+
+    if (!trimmed) {
+      throw new McpError(ErrorCode.InvalidParams, `Empty search value for field ${prefix}`);
+    }
+
+    // Phrases, values with query syntax characters and bare operator words are wrapped in quotes
+    // arXiv API supports quoted phrases for exact matching
+    if (/[\s():]/.test(trimmed) || /^(AND|OR|ANDNOT)$/.test(trimmed)) {
+      return `${prefix}:"${trimmed}"`;
+    }
+
+    return `${prefix}:${trimmed}`;
+  }
+
+  /**
+   * Formats one or more values for a field, OR-ing multiple values together
+   * @returns The formatted terms and whether they form a compound expression
+   */
+  private formatFieldValues(prefix: string, value: string | string[]): { text: string; compound: boolean } {
+    const values = (Array.isArray(value) ? value : [value]).filter((v) => v && v.trim());
+    return {
+      text: values.map((v) => this.formatSearchTerm(prefix, v)).join('+OR+'),
+      compound: values.length > 1,
+    };
+  }
+
+  /**
+   * Serializes a structured query tree into arXiv query syntax
+   * @param node Term or operator group
+   * @param nested Whether the node is inside a group (and so needs parentheses)
+   */
+  private serializeQueryNode(node: QueryNode, nested = false): string {
+    if (!node || typeof node !== 'object') {
+      throw new McpError(ErrorCode.InvalidParams, 'Invalid query_tree node: expected an object');
+    }
+
+    if ('op' in node) {
+      if (!['AND', 'OR', 'ANDNOT'].includes(node.op)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid query_tree operator: ${node.op}`);
+      }
+      if (!Array.isArray(node.terms) || node.terms.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `query_tree ${node.op} group needs at least one term`);
+      }
+      if (node.op === 'ANDNOT' && node.terms.length < 2) {
+        throw new McpError(ErrorCode.InvalidParams, 'query_tree ANDNOT group needs a term to keep and at least one to exclude');
+      }
+
+      const joined = node.terms.map((term) => this.serializeQueryNode(term, true)).join(`+${node.op}+`);
+      return nested && node.terms.length > 1 ? `(${joined})` : joined;
+    }
+
+    const prefix = Object.prototype.hasOwnProperty.call(SEARCH_FIELD_PREFIXES, node.field) ? SEARCH_FIELD_PREFIXES[node.field] : undefined;
+    if (!prefix) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown search field in query_tree: ${node.field}`);
+    }
+    if (typeof node.value !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, `query_tree term for ${node.field} needs a string value`);
+    }
+
+    return this.formatSearchTerm(prefix, node.value);
+  }
+
+  /**
+   * Validates a raw arXiv boolean query and normalizes it for the API
+   * Grammar: expression := operand (operator operand)*, operand := field:value | "(" expression ")"
+   * Date ranges use the API's own form, e.g. submittedDate:[202401010000 TO 202401312359]
+   * @param expression Query such as au:"Yann LeCun" AND (ti:learning OR abs:vision)
+   * @returns The query with operators joined by + as the arXiv API expects
+   */
+  private parseQueryExpression(expression: string): string {
+    const tokenRegex =
+      /\s*(?:(\()|(\))|(ANDNOT|AND|OR)(?=[\s(]|$)|(submittedDate|lastUpdatedDate):\[\s*(\d{8}(?:\d{4})?)\s+TO\s+(\d{8}(?:\d{4})?)\s*\]|([A-Za-z_]+):(?:"([^"]*)"|([^\s()"\[\]]+)))/y;
+    const tokens: { type: 'open' | 'close' | 'op' | 'term'; text: string }[] = [];
+
+    // A + between tokens is the API's own separator, so treat it like whitespace
+    const input = expression.replace(/\+(?=(?:[^"]*"[^"]*")*[^"]*$)/g, ' ').trim();
+
+    while (tokenRegex.lastIndex < input.length) {
+      const position = tokenRegex.lastIndex;
+      const match = tokenRegex.exec(input);
+      if (!match) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid query_expression near "${input.slice(position).trim().slice(0, 30)}"`
+        );
+      }
+
+      if (match[1]) {
+        tokens.push({ type: 'open', text: '(' });
+      } else if (match[2]) {
+        tokens.push({ type: 'close', text: ')' });
+      } else if (match[3]) {
+        tokens.push({ type: 'op', text: match[3] });
+      } else if (match[4]) {
+        tokens.push({ type: 'term', text: `${match[4]}:[${match[5]}+TO+${match[6]}]` });
+      } else {
+        const prefix = Object.prototype.hasOwnProperty.call(SEARCH_FIELD_PREFIXES, match[7]) ? SEARCH_FIELD_PREFIXES[match[7]] : undefined;
+        if (!prefix) {
+          throw new McpError(ErrorCode.InvalidParams, `Unknown search field in query_expression: ${match[7]}`);
+        }
+        tokens.push({ type: 'term', text: this.formatSearchTerm(prefix, match[8] ?? match[9]) });
+      }
+    }
+
+    let index = 0;
+    const parseExpression = (): string => {
+      let result = parseOperand();
+      while (index < tokens.length && tokens[index].type === 'op') {
+        const op = tokens[index++].text;
+        result += `+${op}+${parseOperand()}`;
+      }
+      return result;
+    };
+    const parseOperand = (): string => {
+      const token = tokens[index++];
+      if (!token) {
+        throw new McpError(ErrorCode.InvalidParams, 'Incomplete query_expression: expected a term');
+      }
+      if (token.type === 'term') {
+        return token.text;
+      }
+      if (token.type === 'open') {
+        const inner = parseExpression();
+        if (tokens[index]?.type !== 'close') {
+          throw new McpError(ErrorCode.InvalidParams, 'Unbalanced parentheses in query_expression');
+        }
+        index++;
+        return `(${inner})`;
+      }
+      throw new McpError(ErrorCode.InvalidParams, `Unexpected "${token.text}" in query_expression`);
+    };
+
+    const result = parseExpression();
+    if (index < tokens.length) {
+      const token = tokens[index];
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        token.type === 'close'
+          ? 'Unbalanced parentheses in query_expression'
+          : `Expected AND, OR or ANDNOT before "${token.text}" in query_expression`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts an ISO 8601 date or date-time into the arXiv YYYYMMDDHHMM form (UTC)
+   * @param value Date such as 2025-01-15 or 2025-01-15T12:30:00+02:00
+   * @param endOfDay Whether a bare date means the end of that day rather than the start
+   * @param argName Argument name used in error messages
+   */
+  private formatArxivDate(value: string, endOfDay: boolean, argName: string): string {
+    const trimmed = value.trim();
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(trimmed);
+    const dateTime = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(trimmed);
+
+    if (!dateOnly && !dateTime) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid ${argName}: "${value}". Use an ISO date (2025-01-15) or date-time (2025-01-15T12:00:00Z)`
+      );
+    }
+
+    // arXiv timestamps are GMT, so date-times without an offset are taken as UTC
+    let date: Date;
+    if (dateOnly) {
+      date = new Date(`${trimmed}T${endOfDay ? '23:59:00' : '00:00:00'}Z`);
+    } else {
+      const normalized = trimmed.replace(' ', 'T');
+      date = new Date(/(Z|[+-]\d{2}:?\d{2})$/i.test(normalized) ? normalized : `${normalized}Z`);
+    }
+
+    // Date rolls invalid days over (2025-02-30 becomes March 2), so check the calendar date separately
+    const calendarDate = trimmed.slice(0, 10);
+    if (isNaN(date.getTime()) || new Date(`${calendarDate}T00:00:00Z`).toISOString().slice(0, 10) !== calendarDate) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${argName}: "${value}" is not a real date`);
+    }
+
+    return date.toISOString().replace(/[-:T]/g, '').slice(0, 12);
+  }
+
+  /**
+   * Builds submittedDate/lastUpdatedDate range terms from the date filter arguments
+   * A missing lower bound starts at arXiv's launch. A missing upper bound is far in the future rather than now,
+   * so the query, and with it the metadata cache key, stays the same from one minute to the next
+   * @returns Range terms such as submittedDate:[202501010000+TO+202501072359]
+   */
+  private buildDateRangeTerms(args: DateRangeArgs): string[] {
+    const ranges: [string, string | undefined, string | undefined, string][] = [
+      ['submittedDate', args.submitted_after, args.submitted_before, 'submitted'],
+      ['lastUpdatedDate', args.updated_after, args.updated_before, 'updated'],
+    ];
+    const terms: string[] = [];
+
+    for (const [field, after, before, label] of ranges) {
+      if (!after && !before) {
+        continue;
+      }
+
+      const from = after ? this.formatArxivDate(after, false, `${label}_after`) : '199101010000';
+      const to = before ? this.formatArxivDate(before, true, `${label}_before`) : '999912312359';
+
+      if (from > to) {
+        throw new McpError(ErrorCode.InvalidParams, `${label}_after must not be later than ${label}_before`);
+      }
+
+      terms.push(`${field}:[${from}+TO+${to}]`);
+    }
+
+    return terms;
+  }
+
+  /**
+   * Build the complete search query from arguments
+   * Properly handles multi-word queries, OR-s multiple values for one field,
+   * and combines fields, query_expression, query_tree and date ranges with AND
+   */
+  private buildSearchQuery(args: SearchPapersArgs): string {
+    const searchTerms: { text: string; compound: boolean }[] = [];
+
+    const fields: [keyof SearchPapersArgs, string][] = [
+      ['query', 'all'],
+      ['category', 'cat'],
+      ['author', 'au'],
+      ['title', 'ti'],
+      ['abstract', 'abs'],
+    ];
+    for (const [field, prefix] of fields) {
+      const value = args[field] as string | string[] | undefined;
+      if (value && value.length > 0) {
+        searchTerms.push(this.formatFieldValues(prefix, value));
+      }
+    }
+
+    if (args.query_expression) {
+      const text = this.parseQueryExpression(args.query_expression);
+      searchTerms.push({ text, compound: /\+(AND|OR|ANDNOT)\+/.test(text) });
+    }
+
+    if (args.query_tree) {
+      const text = this.serializeQueryNode(args.query_tree);
+      searchTerms.push({ text, compound: /\+(AND|OR|ANDNOT)\+/.test(text) });
+    }
+
+    for (const text of this.buildDateRangeTerms(args)) {
+      searchTerms.push({ text, compound: false });
+    }
+
+    // Join with AND operator, grouping compound terms so OR/ANDNOT keep their scope
+    // The arXiv API expects: search_query=au:"Yann LeCun"+AND+ti:learning
+    return searchTerms
+      .map((term) => (term.compound && searchTerms.length > 1 ? `(${term.text})` : term.text))
+      .join('+AND+');
+  }
+
+  /**
+   * Builds the API parameters for a search_papers call
+   * @param args Search arguments
+   * @returns Query parameters for queryArxiv
+   */
+  private buildSearchParams(args: SearchPapersArgs): SearchParams {
+    const searchParams: SearchParams = {};
+
+    // Build search query using the new method
+    const searchQuery = this.buildSearchQuery(args);
+    if (searchQuery) {
+      searchParams.search_query = searchQuery;
+    }
+
+    // Add pagination
+    if (args.start !== undefined) {
+      searchParams.start = args.start;
+    }
+
+    if (args.max_results !== undefined) {
+      searchParams.max_results = Math.min(args.max_results, 2000); // API limit
+    } else {
+      searchParams.max_results = this.defaultMaxResults;
+    }
+
+    // Add sorting
+    if (args.sort_by) {
+      searchParams.sortBy = args.sort_by;
+    }
+
+    if (args.sort_order) {
+      searchParams.sortOrder = args.sort_order;
+    }
+
+    return searchParams;
+  }
+
+  /**
+   * Builds a tool result carrying data as structuredContent, matching the tool's outputSchema
+   * The same data goes in a text block as JSON for clients without structured output
+   */
+  private structuredResult(data: object): ToolResult {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+      structuredContent: data as Record<string, unknown>,
+    };
+  }
+
+  /**
+   * Builds the result of an arXiv API query. A response that could not be parsed is an error
+   */
+  private feedResult(response: ArxivFeed | ArxivParseError): ToolResult {
+    if ('error' in response) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+    return this.structuredResult(response);
+  }
+
+  public async searchPapers(args: SearchPapersArgs) {
+    const response = await this.queryArxiv(this.buildSearchParams(args), args.bypass_cache);
+    return this.feedResult(response);
+  }
+
+  private async getPaper(args: GetPaperArgs) {
+    const searchParams: SearchParams = {
+      id_list: this.withVersion(args.paper_id, args.version),
+    };
+
+    const response = await this.queryArxiv(searchParams, args.bypass_cache);
+    return this.feedResult(response);
+  }
+
+  /**
+   * Fetches many papers at once, sending their IDs to id_list in chunks
+   * A failed chunk or an unknown ID is reported on the affected items instead of failing the batch
+   * @param paperIds arXiv IDs, with or without a version suffix
+   * @param bypassCache Skip the metadata cache
+   * @returns One result per input ID, in input order
+   */
+  private async fetchPapersByIds(paperIds: string[], bypassCache = false): Promise<BatchPaperResult[]> {
+    if (paperIds.length > MAX_BATCH_IDS) {
+      throw new McpError(ErrorCode.InvalidParams, `Too many paper_ids: at most ${MAX_BATCH_IDS} per call`);
+    }
+
+    const results: BatchPaperResult[] = paperIds.map((paperId) => {
+      const trimmed = typeof paperId === 'string' ? paperId.trim() : '';
+      return ARXIV_ID_PATTERN.test(trimmed)
+        ? { paper_id: trimmed, status: 'not_found' }
+        : { paper_id: String(paperId), status: 'invalid_id', error: 'Not a valid arXiv identifier' };
+    });
+
+    const uniqueIds = [...new Set(results.filter((r) => r.status !== 'invalid_id').map((r) => r.paper_id))];
+
+    for (let i = 0; i < uniqueIds.length; i += ID_LIST_CHUNK_SIZE) {
+      const chunk = uniqueIds.slice(i, i + ID_LIST_CHUNK_SIZE);
+
+      try {
+        const response = await this.queryArxiv(
+          // id_list only returns max_results entries, which defaults to 10
+          { id_list: chunk.join(','), max_results: chunk.length },
+          bypassCache
+        );
+        if ('error' in response) {
+          throw new Error(response.error);
+        }
+
+        for (const result of results) {
+          if (!chunk.includes(result.paper_id)) {
+            continue;
+          }
+
+          // An unversioned ID matches whichever version arXiv returns
+          const paper = response.papers.find((p) =>
+            /v\d+$/.test(result.paper_id)
+              ? p.arxiv_id === result.paper_id
+              : this.stripVersion(p.arxiv_id) === result.paper_id
+          );
+          if (paper) {
+            result.status = 'found';
+            result.paper = paper;
+          } else {
+            result.error = 'No paper with this ID on arXiv';
+          }
+        }
+      } catch (error) {
+        for (const result of results) {
+          if (chunk.includes(result.paper_id)) {
+            result.status = 'error';
+            result.error = error instanceof Error ? error.message : String(error);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private async getPapers(args: GetPapersArgs) {
+    const results = await this.fetchPapersByIds(args.paper_ids, args.bypass_cache);
+    return this.structuredResult({
+      requested: results.length,
+      found: results.filter((r) => r.status === 'found').length,
+      results,
+    });
+  }
+
+  private async searchByCategory(args: SearchByCategoryArgs) {
+    const searchParams: SearchParams = {
+      search_query: [`cat:${args.category}`, ...this.buildDateRangeTerms(args)].join('+AND+'),
+    };
+
+    // Add pagination
+    if (args.start !== undefined) {
+      searchParams.start = args.start;
+    }
+
+    if (args.max_results !== undefined) {
+      searchParams.max_results = Math.min(args.max_results, 2000); // API limit
+    } else {
+      searchParams.max_results = this.defaultMaxResults;
+    }
+
+    // Add sorting
+    if (args.sort_by) {
+      searchParams.sortBy = args.sort_by;
+    }
+
+    if (args.sort_order) {
+      searchParams.sortOrder = args.sort_order;
+    }
+
+    const response = await this.queryArxiv(searchParams, args.bypass_cache);
+    return this.feedResult(response);
+  }
+
+  /**
+   * Converts an item of an announcement feed to a paper summary
+   * @param item The parsed RSS item
+   * @param includeAbstract Whether to keep the abstract
+   * @returns The paper
+   */
+  private announcementItemToPaper(item: any, includeAbstract: boolean): AnnouncedPaper {
+    const text = (value: any): string => {
+      if (value === undefined || value === null) {
+        return '';
+      }
+      return typeof value === 'object' ? text(value['#text']) : String(value).replace(/\s+/g, ' ').trim();
+    };
+
+    // The description reads "arXiv:2505.01234v1 Announce Type: new Abstract: ..."
+    const description = text(item.description);
+    const guid = text(item.guid).replace(/^oai:arXiv\.org:/, '');
+    const arxivId = guid || (description.match(/^arXiv:(\S+)/)?.[1] ?? '');
+    const versionMatch = arxivId.match(/v(\d+)$/);
+    const abstractMatch = description.match(/Abstract:\s*([\s\S]*)$/);
+
+    return {
+      arxiv_id: arxivId,
+      version: versionMatch ? parseInt(versionMatch[1], 10) : null,
+      title: text(item.title),
+      authors: text(item.creator)
+        .split(/,\s*|\s+and\s+/)
+        .map((author) => author.trim())
+        .filter(Boolean),
+      categories: (item.category || []).map(text).filter(Boolean),
+      announce_type: text(item.announce_type),
+      link: text(item.link),
+      ...(includeAbstract && { summary: abstractMatch ? abstractMatch[1].trim() : '' }),
+    };
+  }
+
+  /**
+   * Lists today's announcement for one or more categories, split into new submissions, cross-lists and replacements
+   * The announcement feed is what arXiv mails out each day; the search API cannot tell these groups apart
+   * @param args Object containing the category and the groups to return
+   * @returns Object containing each group as JSON
+   */
+  private async getNewSubmissions(args: GetNewSubmissionsArgs) {
+    const categories = (Array.isArray(args.category) ? args.category : [args.category]).map((category) => category.trim());
+    for (const category of categories) {
+      if (!/^[a-z-]+(\.[A-Za-z-]+)?$/.test(category)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid category "${category}". Use a category such as cs.CL or an archive such as math`);
+      }
+    }
+    const groups = args.groups && args.groups.length > 0 ? args.groups : (Object.keys(ANNOUNCEMENT_GROUPS) as AnnouncementGroup[]);
+    for (const group of groups) {
+      if (!Object.prototype.hasOwnProperty.call(ANNOUNCEMENT_GROUPS, group)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid group "${group}". Use new, cross_lists or replacements`);
+      }
+    }
+
+    const response = await this.arxivGet(`${this.endpoints.rssBaseUrl}/${categories.join('+')}`);
+    const document = RSS_PARSER.parse(response.data);
+    const channel = document.rss?.channel;
+    if (!channel) {
+      return {
+        content: [{ type: 'text', text: 'Error reading announcement feed: response is not an RSS feed' }],
+        isError: true,
+      };
+    }
+
+    const papers: AnnouncedPaper[] = (channel.item || []).map((item: any) =>
+      this.announcementItemToPaper(item, args.include_abstracts !== false)
+    );
+    const grouped = Object.fromEntries(
+      groups.map((group) => [group, papers.filter((paper) => ANNOUNCEMENT_GROUPS[group].includes(paper.announce_type))])
+    );
+    const announced = new Date(String(channel.pubDate || channel.lastBuildDate || ''));
+
+    const result = {
+      category: categories.join('+'),
+      announced: isNaN(announced.getTime()) ? null : announced.toISOString(),
+      counts: Object.fromEntries(groups.map((group) => [group, grouped[group].length])),
+      ...(papers.length === 0 && { note: 'The feed has no announcements. arXiv does not announce on weekends and holidays' }),
+      ...grouped,
+    };
+
+    return this.structuredResult(result);
+  }
+
+  /**
+   * Runs a request through the shared queue, keeping requestIntervalMs between requests
+   * @param task Function that starts the request
+   * @returns The task's result
+   */
+  private scheduleRequest<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.requestChain.then(async () => {
+      const wait = this.nextRequestAt - Date.now();
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait));
+      }
+
+      try {
+        return await task();
+      } finally {
+        this.nextRequestAt = Math.max(this.nextRequestAt, Date.now() + this.requestIntervalMs);
+      }
+    });
+
+    // Keep the chain alive whether or not this request succeeds
+    this.requestChain = run.then(
+      () => undefined,
+      () => undefined
+    );
+
+    return run;
+  }
+
+  /**
+   * Works out how long to wait before retrying a failed request
+   * Network errors, 429 and 5xx responses are retried with exponential backoff,
+   * or after the server's Retry-After if that is longer
+   * @param error The error thrown by axios
+   * @param attempt Number of retries already made
+   * @returns Delay in milliseconds, or null if the request should not be retried
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (attempt >= this.maxRetries || !axios.isAxiosError(error) || error.code === 'ERR_CANCELED') {
+      return null;
+    }
+
+    const status = error.response?.status;
+    if (error.response && (status === undefined || !RETRYABLE_STATUSES.includes(status))) {
+      return null;
+    }
+
+    const backoff = this.retryBaseDelayMs * 2 ** attempt;
+    const retryAfterHeader = error.response?.headers?.['retry-after'];
+    if (retryAfterHeader === undefined || retryAfterHeader === null) {
+      return backoff;
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date
+    const seconds = Number(retryAfterHeader);
+    const retryAfter = Number.isNaN(seconds)
+      ? new Date(String(retryAfterHeader)).getTime() - Date.now()
+      : seconds * 1000;
+
+    if (Number.isNaN(retryAfter)) {
+      return backoff;
+    }
+    if (retryAfter > MAX_RETRY_AFTER_MS) {
+      return null;
+    }
+    return Math.max(backoff, retryAfter);
+  }
+
+  /**
+   * Makes a GET request to arXiv through the shared rate-limited queue
+   * Transient failures are retried; a Retry-After delays every queued request, not just this one
+   * Every request carries the configured User-Agent, and the API timeout unless config sets another
+   * @param url URL to fetch
+   * @param config Additional axios request configuration
+   * @returns The axios response
+   */
+  private async arxivGet(url: string, config: AxiosRequestConfig = {}) {
+    const requestConfig: AxiosRequestConfig = {
+      timeout: this.apiTimeoutMs,
+      ...config,
+      headers: { 'User-Agent': this.userAgent, ...config.headers },
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.scheduleRequest(() => axios.get(url, requestConfig));
+      } catch (error) {
+        const delay = this.getRetryDelay(error, attempt);
+        if (delay === null) {
+          throw error;
+        }
+
+        const reason =
+          axios.isAxiosError(error) && error.response
+            ? `HTTP ${error.response.status}`
+            : error instanceof Error
+              ? error.message
+              : String(error);
+        console.error(`arXiv request failed (${reason}), retrying in ${delay}ms (retry ${attempt + 1} of ${this.maxRetries})`);
+        this.nextRequestAt = Math.max(this.nextRequestAt, Date.now() + delay);
+      }
+    }
+  }
+
+  /**
+   * Builds the cache file path for a query
+   * Parameters are normalized (sorted, undefined dropped) so equivalent queries share an entry
+   */
+  private getMetadataCachePath(params: SearchParams): string {
+    const normalized = Object.keys(params)
+      .sort()
+      .filter((key) => params[key as keyof SearchParams] !== undefined)
+      .map((key) => [key, params[key as keyof SearchParams]]);
+    const hash = createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+    return path.join(this.metadataCacheDir, `${hash}.json`);
+  }
+
+  /**
+   * Gets how long results for a query stay fresh - ID lookups are kept much longer than searches
+   */
+  private getMetadataCacheTtlSeconds(params: SearchParams): number {
+    return params.id_list && !params.search_query ? this.paperCacheTtlSeconds : this.searchCacheTtlSeconds;
+  }
+
+  /**
+   * Reads a fresh cached result for a query
+   * @returns The cached processed response, or null on a miss or expired entry
+   */
+  private async readMetadataCache(params: SearchParams) {
+    const ttlSeconds = this.getMetadataCacheTtlSeconds(params);
+    if (ttlSeconds <= 0) {
+      return null;
+    }
+
+    const cachePath = this.getMetadataCachePath(params);
+    try {
+      if (!(await fs.pathExists(cachePath))) {
+        return null;
+      }
+
+      const entry = await fs.readJson(cachePath);
+      if (Date.now() - entry.cached_at > ttlSeconds * 1000) {
+        await fs.remove(cachePath);
+        return null;
+      }
+
+      return entry.response as ArxivFeed;
+    } catch (error) {
+      // A corrupt entry is treated as a miss and overwritten by the next write
+      console.error('Error reading metadata cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores the processed response for a query
+   * Failures are logged, not thrown - the cache is an optimisation only
+   */
+  private async writeMetadataCache(
+    params: SearchParams,
+    response: ArxivFeed | ArxivParseError
+  ) {
+    if (this.getMetadataCacheTtlSeconds(params) <= 0 || 'error' in response) {
+      return;
+    }
+
+    try {
+      await fs.outputJson(this.getMetadataCachePath(params), {
+        cached_at: Date.now(),
+        params,
+        response,
+      });
+    } catch (error) {
+      console.error('Error writing metadata cache:', error);
+    }
+
+    if (Date.now() - this.lastMetadataCacheSweepAt >= METADATA_CACHE_SWEEP_INTERVAL_MS) {
+      this.lastMetadataCacheSweepAt = Date.now();
+      await this.sweepMetadataCache();
+    }
+  }
+
+  /**
+   * Deletes expired and unreadable entries from the metadata cache
+   * Most queries are never repeated, so entries are not reliably removed when read. Writes sweep now and then instead
+   * Failures are logged, not thrown - the cache is an optimisation only
+   * @returns Number of entries deleted
+   */
+  private async sweepMetadataCache(): Promise<number> {
+    let removed = 0;
+    try {
+      if (!(await fs.pathExists(this.metadataCacheDir))) {
+        return removed;
+      }
+
+      for (const file of await fs.readdir(this.metadataCacheDir)) {
+        if (!file.endsWith('.json')) {
+          continue;
+        }
+
+        const cachePath = path.join(this.metadataCacheDir, file);
+        let expired: boolean;
+        try {
+          const entry = await fs.readJson(cachePath);
+          expired = Date.now() - entry.cached_at > this.getMetadataCacheTtlSeconds(entry.params || {}) * 1000;
+        } catch {
+          expired = true;
+        }
+
+        if (expired) {
+          await fs.remove(cachePath);
+          removed++;
+        }
+      }
+    } catch (error) {
+      console.error('Error sweeping metadata cache:', error);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Queries the arXiv API, serving fresh results from the metadata cache when available
+   * @param params Query parameters
+   * @param bypassCache Fetch from arXiv even if a cached result exists (the result is still cached)
+   * @returns Processed response
+   */
+  private async queryArxiv(params: SearchParams, bypassCache = false) {
+    if (!bypassCache) {
+      const cached = await this.readMetadataCache(params);
+      if (cached) {
+        console.error('Using cached arXiv query result');
+        return cached;
+      }
+    }
+
+    try {
+      // Build URL manually to have more control over encoding
+      const url = new URL(this.endpoints.apiBaseUrl);
+
+      if (params.search_query) {
+        // Don't double-encode the search query - it's already formatted
+        url.searchParams.set('search_query', params.search_query);
+      }
+      if (params.id_list) {
+        url.searchParams.set('id_list', params.id_list);
+      }
+      if (params.start !== undefined) {
+        url.searchParams.set('start', String(params.start));
+      }
+      if (params.max_results !== undefined) {
+        url.searchParams.set('max_results', String(params.max_results));
+      }
+      if (params.sortBy) {
+        url.searchParams.set('sortBy', params.sortBy);
+      }
+      if (params.sortOrder) {
+        url.searchParams.set('sortOrder', params.sortOrder);
+      }
+
+      const response = await this.arxivGet(url.toString());
+
+      // Parse the XML response
+      const xmlData = response.data;
+
+      // Extract and process the data
+      const result = this.processArxivResponse(xmlData);
+      await this.writeMetadataCache(params, result);
+      return result;
+    } catch (error) {
+      console.error('Error querying arXiv API:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Maps the namespace URIs declared on an element to the prefixes used for them
+   * The default namespace maps to an empty prefix
+   */
+  private getNamespacePrefixes(element: any, inherited: Record<string, string> = {}): Record<string, string> {
+    const prefixes = { ...inherited };
+    for (const [name, value] of Object.entries(element || {})) {
+      if (name === 'xmlns') {
+        prefixes[String(value)] = '';
+      } else if (name.startsWith('xmlns:')) {
+        prefixes[String(value)] = name.slice('xmlns:'.length);
+      }
+    }
+    return prefixes;
+  }
+
+  /**
+   * Parses an arXiv Atom feed into structured paper data
+   * Elements are looked up by namespace URI rather than by prefix, so the feed
+   * may use any prefixes it declares. XML entities are decoded by the parser
+   * @param xmlData Atom XML returned by the arXiv API
+   * @returns The feed summary and papers, or an error with the start of the raw response
+   */
+  private processArxivResponse(xmlData: string): ArxivFeed | ArxivParseError {
+    try {
+      const document = ATOM_PARSER.parse(xmlData);
+      const rootName = Object.keys(document).find((name) => name === 'feed' || name.endsWith(':feed'));
+      if (!rootName) {
+        throw new Error('Response does not contain an Atom feed');
+      }
+
+      const feed = document[rootName];
+      const namespaces = this.getNamespacePrefixes(feed);
+
+      // Qualified element name for a namespace URI and local name
+      const qualify = (namespaceUri: string, localName: string, scope = namespaces) => {
+        const prefix = scope[namespaceUri];
+        return prefix ? `${prefix}:${localName}` : localName;
+      };
+
+      // Text content of an element, whether or not it also has attributes
+      const textOf = (value: any): string => {
+        if (value === undefined || value === null) {
+          return '';
+        }
+        if (typeof value === 'object') {
+          return textOf(value['#text']);
+        }
+        return String(value).trim();
+      };
+
+      const normalize = (value: any) => textOf(value).replace(/\s+/g, ' ');
+      const optional = (value: any) => normalize(value) || null;
+      const asArray = (value: any): any[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+      const papers: ArxivPaper[] = asArray(feed[qualify(ATOM_NS, 'entry')]).map((entry: any) => {
+        const scope = this.getNamespacePrefixes(entry, namespaces);
+        const atom = (name: string) => entry[qualify(ATOM_NS, name, scope)];
+        const arxiv = (name: string) => entry[qualify(ARXIV_NS, name, scope)];
+
+        const authorDetails: ArxivAuthor[] = asArray(atom('author')).map((author: any) => ({
+          name: normalize(author[qualify(ATOM_NS, 'name', scope)]),
+          affiliations: asArray(author[qualify(ARXIV_NS, 'affiliation', scope)]).map(normalize).filter(Boolean),
+        }));
+
+        const links: ArxivLink[] = asArray(atom('link'))
+          .filter((link: any) => link.href)
+          .map((link: any) => ({
+            href: link.href,
+            rel: link.rel || 'alternate',
+            type: link.type || 'text/html',
+            ...(link.title && { title: link.title }),
+          }));
+
+        const id = textOf(atom('id'));
+        const arxivId = id.replace(/^https?:\/\/arxiv\.org\/abs\//, '');
+        const versionMatch = arxivId.match(/v(\d+)$/);
+        const primaryCategory = arxiv('primary_category');
+
+        return {
+          id,
+          title: normalize(atom('title')),
+          summary: normalize(atom('summary')),
+          authors: authorDetails.map((author) => author.name),
+          author_details: authorDetails,
+          published: textOf(atom('published')),
+          updated: textOf(atom('updated')),
+          categories: asArray(atom('category'))
+            .map((category: any) => category.term)
+            .filter(Boolean),
+          primary_category: primaryCategory?.term || null,
+          doi: optional(arxiv('doi')),
+          journal_ref: optional(arxiv('journal_ref')),
+          comment: optional(arxiv('comment')),
+          links,
+          // Extract arXiv ID from the main ID
+          arxiv_id: arxivId,
+          version: versionMatch ? parseInt(versionMatch[1], 10) : null,
+        };
+      });
+
+      const count = (name: string) => parseInt(textOf(feed[qualify(OPENSEARCH_NS, name)]), 10) || 0;
+
+      return {
+        feed_title: normalize(feed[qualify(ATOM_NS, 'title')]),
+        total_results: count('totalResults'),
+        start_index: count('startIndex'),
+        items_per_page: count('itemsPerPage'),
+        papers,
+      };
+    } catch (error) {
+      console.error('Error parsing arXiv XML response:', error);
+      return {
+        error: 'Failed to parse arXiv response',
+        raw_response: xmlData.substring(0, 1000) + '...' // Truncated for safety
+      };
+    }
+  }
+
+  /**
+   * Builds the PDF download URL for a paper
+   * arXiv PDF URLs follow the pattern: https://arxiv.org/pdf/{paper_id}.pdf
+   */
+  private getPdfUrl(paperId: string): string {
+    return `${this.endpoints.pdfBaseUrl}/${paperId}.pdf`;
+  }
+
+  /**
+   * Builds the HTML rendering URL for a paper
+   */
+  private getHtmlUrl(paperId: string): string {
+    return `${this.endpoints.htmlBaseUrl}/${paperId}`;
+  }
+
+  /**
+   * Builds the e-print (source archive) URL for a paper
+   */
+  private getEprintUrl(paperId: string): string {
+    return `${this.endpoints.eprintBaseUrl}/${paperId}`;
+  }
+
+  /**
+   * Builds the cache path for a paper's PDF
+   * Slashes in old-style IDs (cs/0001001) are replaced with underscores
+   */
+  private getPdfCachePath(paperId: string): string {
+    return path.join(this.pdfCacheDir, `${paperId.replace(/\//g, '_')}.pdf`);
+  }
+
+  /**
+   * Recovers the paper ID from a cached PDF file name
+   * Reverses the sanitisation in getPdfCachePath - new-style IDs never contain underscores
+   */
+  private getPaperIdFromPdfFile(file: string): string {
+    return path.basename(file, '.pdf').replace(/_/g, '/');
+  }
+
+  /**
+   * Records an access to a cached PDF by updating its modification time
+   * The modification time is used as the last access time for LRU eviction, since
+   * access times are often not maintained by the filesystem
+   */
+  private async touchCachedPdf(pdfPath: string) {
+    try {
+      const now = new Date();
+      await fs.utimes(pdfPath, now, now);
+    } catch (error) {
+      console.error('Error updating cached PDF access time:', error);
+    }
+  }
+
+  /**
+   * Lists the PDFs in the cache, most recently used first
+   */
+  private async getCachedPdfs(): Promise<CachedPdf[]> {
+    if (!(await fs.pathExists(this.pdfCacheDir))) {
+      return [];
+    }
+
+    const files = (await fs.readdir(this.pdfCacheDir)).filter((file) => file.endsWith('.pdf'));
+    const cachedPdfs = await Promise.all(
+      files.map(async (file) => {
+        const pdfPath = path.join(this.pdfCacheDir, file);
+        const stats = await fs.stat(pdfPath);
+        return {
+          paper_id: this.getPaperIdFromPdfFile(file),
+          path: pdfPath,
+          size_bytes: stats.size,
+          last_accessed: stats.mtime,
+        };
+      })
+    );
+
+    return cachedPdfs.sort((a, b) => b.last_accessed.getTime() - a.last_accessed.getTime());
+  }
+
+  /**
+   * Evicts the least recently used PDFs until the cache fits within pdfCacheMaxBytes
+   * Failures are logged, not thrown - a full cache should not fail a download
+   * @param keepPath PDF that must not be evicted (the one just downloaded)
+   * @returns Paper IDs that were evicted
+   */
+  private async enforcePdfCacheLimit(keepPath?: string): Promise<string[]> {
+    const evicted: string[] = [];
+    if (this.pdfCacheMaxBytes <= 0) {
+      return evicted;
+    }
+
+    try {
+      const cachedPdfs = await this.getCachedPdfs();
+      let totalBytes = cachedPdfs.reduce((total, pdf) => total + pdf.size_bytes, 0);
+
+      // Oldest last, so walk the list backwards
+      for (let i = cachedPdfs.length - 1; i >= 0 && totalBytes > this.pdfCacheMaxBytes; i--) {
+        const pdf = cachedPdfs[i];
+        if (pdf.path === keepPath) {
+          continue;
+        }
+
+        await fs.remove(pdf.path);
+        totalBytes -= pdf.size_bytes;
+        evicted.push(pdf.paper_id);
+        console.error(`Evicted cached PDF for ${pdf.paper_id} to stay within the cache size limit`);
+      }
+    } catch (error) {
+      console.error('Error enforcing PDF cache limit:', error);
+    }
+
+    return evicted;
+  }
+
+  /**
+   * Lists the cached papers with their size and last access time
+   * @returns Object containing the cache summary and papers as JSON
+   */
+  private async listCachedPapers() {
+    const cachedPdfs = await this.getCachedPdfs();
+
+    return this.structuredResult({
+      cache_dir: this.pdfCacheDir,
+      total_size_bytes: cachedPdfs.reduce((total, pdf) => total + pdf.size_bytes, 0),
+      max_size_bytes: this.pdfCacheMaxBytes > 0 ? this.pdfCacheMaxBytes : null,
+      papers: cachedPdfs.map((pdf) => ({
+        paper_id: pdf.paper_id,
+        size_bytes: pdf.size_bytes,
+        last_accessed: pdf.last_accessed.toISOString(),
+      })),
+    });
+  }
+
+  /**
+   * Removes one or all papers from the PDF cache
+   * @param args Object containing paper_id, or all set to true
+   * @returns Object listing the evicted papers and the space freed
+   */
+  private async evictCachedPapers(args: EvictCachedPapersArgs) {
+    const cachedPdfs = await this.getCachedPdfs();
+    const toEvict = args.all ? cachedPdfs : cachedPdfs.filter((pdf) => pdf.paper_id === args.paper_id);
+
+    if (!args.all && toEvict.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Paper ${args.paper_id} is not in the PDF cache`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    for (const pdf of toEvict) {
+      await fs.remove(pdf.path);
+    }
+
+    return this.structuredResult({
+      evicted: toEvict.map((pdf) => pdf.paper_id),
+      freed_bytes: toEvict.reduce((total, pdf) => total + pdf.size_bytes, 0),
+    });
+  }
+
+  /**
+   * Downloads a PDF file from a URL and saves it to the temporary directory
+   * @param url URL of the PDF to download
+   * @param paperId arXiv paper ID (used for filename)
+   * @returns Path to the downloaded PDF file
+   */
+  private async downloadPdf(url: string, paperId: string): Promise<string> {
+    try {
+      // Ensure temp directory exists
+      await fs.ensureDir(this.pdfCacheDir);
+
+      // Create a unique filename based on the paper ID
+      const pdfPath = this.getPdfCachePath(paperId);
+
+      // Check if we already have this PDF cached
+      if (await fs.pathExists(pdfPath)) {
+        console.error(`Using cached PDF for ${paperId}`);
+        await this.touchCachedPdf(pdfPath);
+        return pdfPath;
+      }
+
+      console.error(`Downloading PDF for ${paperId} from ${url}`);
+
+      // Download the PDF with proper headers
+      // Note: Using responseType 'arraybuffer' to handle binary data
+      const response = await this.arxivGet(url, {
+        responseType: 'arraybuffer',
+        // Add a timeout to prevent hanging on large files
+        timeout: this.downloadTimeoutMs,
+      });
+
+      // Save the PDF to disk
+      await fs.outputFile(pdfPath, response.data);
+
+      // Make room for it by evicting the least recently used PDFs
+      await this.enforcePdfCacheLimit(pdfPath);
+
+      return pdfPath;
+    } catch (error) {
+      console.error('Error downloading PDF:', error);
+      throw new Error(`Failed to download PDF: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Extracts text content from a PDF file
+   * Uses pdf-parse/lib/pdf-parse.js directly to avoid test file loading issue
+   * @param pdfPath Path to the PDF file
+   * @returns Extracted text content
+   */
+  private async extractTextFromPdf(pdfPath: string): Promise<string> {
+    try {
+      // Read the PDF file
+      const dataBuffer = await fs.readFile(pdfPath);
+
+      // Use require to load the internal CommonJS module directly
+      // This bypasses index.js which has test code that runs when !module.parent (true in ESM)
+      const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+
+      // Parse the PDF
+      const data = await pdfParse(dataBuffer);
+
+      // Return the text content
+      return data.text;
+    } catch (error) {
+      console.error('Error extracting text from PDF:', error);
+      throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Extracts text content from a PDF file page by page
+   * Mirrors pdf-parse's default page renderer but keeps each page separate
+   * @param pdfPath Path to the PDF file
+   * @returns Extracted text of each page, in page order
+   */
+  private async extractPagesFromPdf(pdfPath: string): Promise<string[]> {
+    try {
+      const dataBuffer = await fs.readFile(pdfPath);
+      const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+      const pages: string[] = [];
+
+      const data = await pdfParse(dataBuffer, {
+        pagerender: async (pageData: any) => {
+          const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false,
+          });
+
+          // Start a new line whenever the vertical position changes
+          let lastY: number | undefined;
+          let text = '';
+          for (const item of textContent.items) {
+            text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+            lastY = item.transform[5];
+          }
+
+          pages[pageData.pageIndex] = text;
+          return text;
+        },
+      });
+
+      // Pages that failed to render are reported as empty rather than dropped
+      return Array.from({ length: data.numpages }, (_, i) => pages[i] || '');
+    } catch (error) {
+      console.error('Error extracting pages from PDF:', error);
+      throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Parses a page range specification into sorted, de-duplicated page numbers
+   * Accepts single pages, closed and open ranges, separated by commas: "3-7", "5", "10-", "1,4-6"
+   * @param spec The page range specification (1-based)
+   * @param totalPages Number of pages in the document
+   * @returns 1-based page numbers within the document
+   */
+  private parsePageRange(spec: string, totalPages: number): number[] {
+    const pageNumbers = new Set<number>();
+
+    for (const part of spec.split(',')) {
+      const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d*))?$/);
+      if (!match) {
+        throw new Error(`Invalid page range "${spec}". Use e.g. "3-7", "5", "10-" or "1,4-6"`);
+      }
+
+      const first = parseInt(match[1], 10);
+      const last = match[2] === undefined ? first : match[2] === '' ? totalPages : parseInt(match[2], 10);
+      if (first < 1 || last < first) {
+        throw new Error(`Invalid page range "${spec}". Pages start at 1 and ranges must be ascending`);
+      }
+
+      for (let page = first; page <= Math.min(last, totalPages); page++) {
+        pageNumbers.add(page);
+      }
+    }
+
+    if (pageNumbers.size === 0) {
+      throw new Error(`Page range "${spec}" is outside the document (${totalPages} pages)`);
+    }
+
+    return Array.from(pageNumbers).sort((a, b) => a - b);
+  }
+
+  /**
+   * Collapses the whitespace in extracted text for plain text output
+   */
+  private cleanExtractedText(text: string): string {
+    return text
+      .replace(/\s+/g, ' ')
+      .replace(/(\r\n|\n|\r)/gm, '\n')
+      .trim();
+  }
+
+  /**
+   * Splits extracted paper text into headed sections
+   * Recognises the title block, abstract, numbered sections (1, 2.1, II.),
+   * acknowledgements, references and appendices. Numbered headings must follow
+   * on from the previous one, which filters out numbered lines inside the body.
+   * @param text Raw text as returned by extractTextFromPdf (line breaks intact)
+   * @param keepLineBreaks Keep each section body's original lines instead of joining them into paragraphs
+   * @returns Sections in document order
+   */
+  private splitIntoSections(text: string, keepLineBreaks = false): PaperSection[] {
+    const sections: PaperSection[] = [];
+    const preamble: string[] = [];
+    let current: PaperSection | null = null;
+    let body: string[] = [];
+    let lastTopLevel = 0;
+    let inBackMatter = false;
+
+    const flush = () => {
+      if (current) {
+        current.text = keepLineBreaks ? body.filter((line) => line !== '').join('\n') : this.joinSectionLines(body);
+        sections.push(current);
+      }
+      body = [];
+    };
+
+    const start = (section: PaperSection, inlineText?: string) => {
+      flush();
+      current = section;
+      if (inlineText) {
+        body.push(inlineText);
+      }
+    };
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+
+      const abstractMatch = line.match(/^abstract\b[\s.:\u2014\u2013-]*(.*)$/i);
+      const acknowledgementsMatch = line.match(
+        /^(?:\d+\.?\s+)?(acknowledge?ments?)\b[\s.:]*(.*)$/i
+      );
+      const referencesMatch = line.match(
+        /^(?:\d+\.?\s+)?(references|bibliography|literature cited)$/i
+      );
+      const appendixMatch = line.match(/^(appendix(?:\s+[A-Z0-9]+)?)\b[\s.:\u2014\u2013-]*(.*)$/i);
+      const numberedMatch = line.match(/^(\d+(?:\.\d+)*)\.?\s+(.+)$/);
+      const romanMatch = line.match(/^([IVX]+)\.\s+(.+)$/);
+      const letteredMatch = line.match(/^([A-Z](?:\.\d+)*)\.?\s+(.+)$/);
+
+      if (!inBackMatter && abstractMatch && !sections.some((s) => s.type === 'abstract')) {
+        start({ type: 'abstract', heading: 'Abstract', text: '' }, abstractMatch[1]);
+      } else if (acknowledgementsMatch) {
+        start(
+          { type: 'acknowledgements', heading: acknowledgementsMatch[1], text: '' },
+          acknowledgementsMatch[2]
+        );
+      } else if (referencesMatch) {
+        inBackMatter = true;
+        start({ type: 'references', heading: referencesMatch[1], text: '' });
+      } else if (appendixMatch && (appendixMatch[2] === '' || this.looksLikeHeading(appendixMatch[2]))) {
+        inBackMatter = true;
+        start({
+          type: 'appendix',
+          heading: appendixMatch[2] ? `${appendixMatch[1]} ${appendixMatch[2]}` : appendixMatch[1],
+          text: '',
+        });
+      } else if (
+        inBackMatter &&
+        letteredMatch &&
+        !letteredMatch[2].includes(',') &&
+        this.looksLikeHeading(letteredMatch[2])
+      ) {
+        // After the references, lettered headings (A, B.1) are appendices
+        start({
+          type: 'appendix',
+          heading: letteredMatch[2],
+          number: letteredMatch[1],
+          level: letteredMatch[1].split('.').length,
+          text: '',
+        });
+      } else if (!inBackMatter && numberedMatch && this.looksLikeHeading(numberedMatch[2])) {
+        const parts = numberedMatch[1].split('.').map((part) => parseInt(part, 10));
+        const isNextTopLevel = parts.length === 1 && parts[0] === lastTopLevel + 1;
+        const isSubsection = parts.length > 1 && parts[0] === lastTopLevel;
+
+        if (isNextTopLevel || isSubsection) {
+          lastTopLevel = parts[0];
+          start({
+            type: 'section',
+            heading: numberedMatch[2],
+            number: numberedMatch[1],
+            level: parts.length,
+            text: '',
+          });
+        } else if (current) {
+          body.push(line);
+        } else {
+          preamble.push(line);
+        }
+      } else if (
+        !inBackMatter &&
+        romanMatch &&
+        this.romanToInt(romanMatch[1]) === lastTopLevel + 1 &&
+        this.looksLikeHeading(romanMatch[2]) &&
+        romanMatch[2] === romanMatch[2].toUpperCase()
+      ) {
+        lastTopLevel += 1;
+        start({
+          type: 'section',
+          heading: romanMatch[2],
+          number: romanMatch[1],
+          level: 1,
+          text: '',
+        });
+      } else if (current) {
+        body.push(line);
+      } else {
+        preamble.push(line);
+      }
+    }
+
+    flush();
+
+    // Everything before the first heading is the title block (title, authors, affiliations)
+    const titleLines = preamble.filter((line) => line !== '');
+    if (titleLines.length > 0) {
+      sections.unshift({
+        type: 'title',
+        heading: titleLines[0],
+        text: this.joinSectionLines(titleLines.slice(1)),
+      });
+    }
+
+    return sections;
+  }
+
+  /**
+   * Checks whether a line's text (after any section number) reads like a heading
+   * rather than a sentence, table row or reference entry
+   */
+  private looksLikeHeading(text: string): boolean {
+    const trimmed = text.trim();
+    return (
+      trimmed.length > 0 &&
+      trimmed.length <= 80 &&
+      /^[A-Z]/.test(trimmed) &&
+      !/[.,;:]$/.test(trimmed) &&
+      trimmed.split(/\s+/).length <= 12 &&
+      (trimmed.match(/[A-Za-z]/g) || []).length >= trimmed.replace(/\s/g, '').length * 0.7
+    );
+  }
+
+  /**
+   * Converts a Roman numeral (I-XXXIX) to an integer
+   */
+  private romanToInt(numeral: string): number {
+    const values: Record<string, number> = { I: 1, V: 5, X: 10 };
+    let total = 0;
+    for (let i = 0; i < numeral.length; i++) {
+      const value = values[numeral[i]];
+      const next = values[numeral[i + 1]] || 0;
+      total += value < next ? -value : value;
+    }
+    return total;
+  }
+
+  /**
+   * Joins the lines of a section body into readable text
+   * Re-joins words hyphenated across line breaks and keeps blank-line paragraph breaks
+   */
+  private joinSectionLines(lines: string[]): string {
+    return lines
+      .join('\n')
+      .replace(/([a-z])-\n([a-z])/g, '$1$2')
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+      .filter((paragraph) => paragraph !== '')
+      .join('\n\n');
+  }
+
+  /**
+   * Gets the full text content of a paper by downloading and extracting text from its PDF
+   * @param args Object containing paper_id and optional format/section selection
+   * @returns Object containing the extracted text content, or its sections as JSON
+   */
+  private async getPaperContent(args: GetPaperContentArgs): Promise<ToolResult> {
+    try {
+      const paperId = this.withVersion(args.paper_id, args.version);
+      const extractor = args.extractor || 'pdf';
+
+      if (extractor === 'html' && args.pages !== undefined) {
+        return {
+          content: [{ type: 'text', text: 'pages is only available with the pdf extractor; use chunk_index to page through HTML' }],
+          isError: true,
+        };
+      }
+
+      // Page ranges only exist in the PDF, so auto goes straight to it when pages are requested
+      let markdown: string | null = null;
+      if (extractor === 'html' || (extractor === 'auto' && args.pages === undefined)) {
+        markdown = await this.fetchHtmlMarkdown(paperId);
+        if (markdown === null && extractor === 'html') {
+          return {
+            content: [{ type: 'text', text: `No HTML version of ${paperId} is available on arXiv; use extractor "pdf"` }],
+            isError: true,
+          };
+        }
+      }
+      const extractorInfo = args.extractor && { extractor: markdown !== null ? 'html' : 'pdf' };
+
+      // Paging through the paper needs per-page text so the page count can be reported
+      const paged =
+        args.pages !== undefined || args.chunk_index !== undefined || args.chunk_size !== undefined;
+
+      let textContent: string;
+      let totalPages: number | undefined;
+      let selectedPages: number[] | undefined;
+
+      if (markdown !== null) {
+        textContent = markdown;
+      } else if (paged) {
+        // Download the PDF
+        const pdfPath = await this.downloadPdf(this.getPdfUrl(paperId), paperId);
+
+        const pages = await this.extractPagesFromPdf(pdfPath);
+        totalPages = pages.length;
+        selectedPages = args.pages
+          ? this.parsePageRange(args.pages, totalPages)
+          : pages.map((_, i) => i + 1);
+        textContent = selectedPages.map((page) => pages[page - 1]).join('\n\n');
+      } else {
+        // Download the PDF and extract its text
+        const pdfPath = await this.downloadPdf(this.getPdfUrl(paperId), paperId);
+        textContent = await this.extractTextFromPdf(pdfPath);
+      }
+
+      // Whole papers go into the full-text index for search_library
+      if (args.pages === undefined) {
+        await this.indexPaperText(paperId, textContent);
+      }
+
+      if (args.format === 'sections' || args.section) {
+        // Split on the raw text - headings are only recognisable while line breaks survive.
+        // Markdown heading markers are dropped so HTML headings read like PDF ones
+        let sections = this.splitIntoSections(
+          markdown !== null ? textContent.replace(/^#{1,6}\s+/gm, '') : textContent
+        );
+
+        if (args.section) {
+          const wanted = args.section.trim().toLowerCase();
+          const available = sections.map((section) => section.heading);
+          sections = sections.filter(
+            (section) =>
+              section.heading.toLowerCase().includes(wanted) || section.type === wanted
+          );
+
+          if (sections.length === 0) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `No section matching "${args.section}" found. Available sections: ${available.join(', ')}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+
+        return this.structuredResult({
+          paper_id: args.paper_id,
+          ...extractorInfo,
+          ...(paged && { pages: args.pages || 'all', total_pages: totalPages }),
+          sections,
+        });
+      }
+
+      // Clean up the text (remove excessive whitespace, normalize line breaks). Markdown keeps its layout
+      const cleanedText = markdown !== null ? textContent.trim() : this.cleanExtractedText(textContent);
+
+      if (paged) {
+        const chunkSize = Math.max(1, Math.floor(args.chunk_size ?? DEFAULT_CHUNK_SIZE));
+        const chunkIndex = Math.max(0, Math.floor(args.chunk_index ?? 0));
+        const totalChunks = Math.max(1, Math.ceil(cleanedText.length / chunkSize));
+
+        if (chunkIndex >= totalChunks) {
+          throw new Error(`chunk_index ${chunkIndex} is out of range (total_chunks: ${totalChunks})`);
+        }
+
+        return this.structuredResult({
+          paper_id: args.paper_id,
+          ...extractorInfo,
+          pages: args.pages || 'all',
+          page_numbers: args.pages ? selectedPages : undefined,
+          total_pages: totalPages,
+          chunk_index: chunkIndex,
+          chunk_size: chunkSize,
+          total_chunks: totalChunks,
+          total_characters: cleanedText.length,
+          next_chunk_index: chunkIndex + 1 < totalChunks ? chunkIndex + 1 : null,
+          text: cleanedText.slice(chunkIndex * chunkSize, (chunkIndex + 1) * chunkSize),
+        });
+      }
+
+      // Return the extracted text. The text block stays plain text for older clients
+      return {
+        content: [
+          {
+            type: 'text',
+            text: cleanedText,
+          },
+        ],
+        structuredContent: { paper_id: args.paper_id, ...extractorInfo, text: cleanedText },
+      };
+    } catch (error) {
+      console.error('Error in getPaperContent:', error);
+
+      if (axios.isAxiosError(error)) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error retrieving paper content: ${error.response?.data || error.message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error processing paper content: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Runs a read-modify-write of a JSON data file (the library or the saved searches), one at a time
+   * @param filePath File to read and write
+   * @param empty Contents to start from when the file does not exist yet
+   * @param update Changes the data in place and returns a result, usually the tool result; the file is only written when it returns changed: true
+   * @returns The update's result
+   */
+  private async updateDataFile<T, R = ToolResult>(
+    filePath: string,
+    empty: T,
+    update: (data: T) => Promise<{ result: R; changed: boolean }>
+  ): Promise<R> {
+    const task = this.dataFileChain.then(async () => {
+      const data: T = (await fs.pathExists(filePath)) ? await fs.readJson(filePath) : empty;
+
+      const { result, changed } = await update(data);
+      if (changed) {
+        await fs.outputJson(filePath, data, { spaces: 2 });
+      }
+      return result;
+    });
+
+    this.dataFileChain = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * Runs a read-modify-write of the personal library
+   */
+  private async updateLibrary(
+    update: (library: Library) => Promise<{ result: ToolResult; changed: boolean }>
+  ): Promise<ToolResult> {
+    return this.updateDataFile<Library>(this.libraryPath, { papers: {} }, update);
+  }
+
+  /**
+   * Normalizes tag and collection names: trimmed, without empties or duplicates. Tags are also lowercased
+   */
+  private normalizeLabels(labels: string[] | undefined, lowercase: boolean): string[] {
+    return [...new Set((labels || []).map((label) => (lowercase ? label.trim().toLowerCase() : label.trim())))]
+      .filter((label) => label !== '');
+  }
+
+  /**
+   * Builds the error result for a paper that is not in the library
+   */
+  private notInLibrary(paperId: string): ToolResult {
+    return {
+      content: [{ type: 'text', text: `Paper ${paperId} is not in the library. Save it with save_paper first` }],
+      isError: true,
+    };
+  }
+
+  /**
+   * Saves a paper to the personal library, or adds a collection, tags or a note to a saved one
+   * @param args Object containing paper_id and what to attach to it
+   * @returns Object containing the library entry as JSON
+   */
+  private async savePaper(args: SavePaperArgs): Promise<ToolResult> {
+    const paperId = this.stripVersion(args.paper_id.trim());
+    if (!ARXIV_ID_PATTERN.test(paperId)) {
+      throw new McpError(ErrorCode.InvalidParams, `Not a valid arXiv identifier: ${args.paper_id}`);
+    }
+
+    let metadata = await this.updateDataFile<Library, ArxivPaper | undefined>(
+      this.libraryPath,
+      { papers: {} },
+      async (library) => ({ result: library.papers[paperId]?.metadata, changed: false })
+    );
+
+    // Fetched outside the data file lock, so a slow arXiv does not hold up the other library tools
+    if (!metadata || args.refresh_metadata) {
+      // The same lookup get_paper makes
+      const response = await this.queryArxiv({ id_list: paperId }, args.bypass_cache);
+      if ('error' in response) {
+        return { content: [{ type: 'text', text: `Error fetching metadata: ${response.error}` }], isError: true };
+      }
+      metadata = response.papers.find((paper) => this.stripVersion(paper.arxiv_id) === paperId);
+      if (!metadata) {
+        return { content: [{ type: 'text', text: `No paper with ID ${paperId} on arXiv` }], isError: true };
+      }
+    }
+    const fetched = metadata;
+
+    return this.updateLibrary(async (library) => {
+      const existing = library.papers[paperId];
+      // The entry may have changed while arXiv was asked; metadata this call fetched replaces what it holds
+      const metadata = args.refresh_metadata || !existing ? fetched : existing.metadata;
+
+      const now = new Date().toISOString();
+      const entry: LibraryEntry = {
+        paper_id: paperId,
+        collections: this.normalizeLabels([...(existing?.collections || []), ...(args.collection ? [args.collection] : [])], false),
+        tags: this.normalizeLabels([...(existing?.tags || []), ...(args.tags || [])], true),
+        notes: [...(existing?.notes || []), ...(args.note?.trim() ? [{ text: args.note.trim(), added_at: now }] : [])],
+        saved_at: existing?.saved_at || now,
+        updated_at: now,
+        metadata,
+      };
+      library.papers[paperId] = entry;
+
+      return {
+        result: this.structuredResult({ saved: !existing, entry }),
+        changed: true,
+      };
+    });
+  }
+
+  /**
+   * Changes the tags, collections or notes of a saved paper
+   * @param args Object containing paper_id and the changes
+   * @returns Object containing the updated library entry as JSON
+   */
+  private async updateSavedPaper(args: UpdateSavedPaperArgs) {
+    const paperId = this.stripVersion(args.paper_id.trim());
+
+    return this.updateLibrary(async (library) => {
+      const entry = library.papers[paperId];
+      if (!entry) {
+        return { result: this.notInLibrary(paperId), changed: false };
+      }
+
+      const removeTags = this.normalizeLabels(args.remove_tags, true);
+      const removeCollections = this.normalizeLabels(args.remove_collections, false);
+      const now = new Date().toISOString();
+
+      entry.tags = this.normalizeLabels([...entry.tags, ...(args.add_tags || [])], true)
+        .filter((tag) => !removeTags.includes(tag));
+      entry.collections = this.normalizeLabels([...entry.collections, ...(args.add_collections || [])], false)
+        .filter((collection) => !removeCollections.includes(collection));
+      if (args.clear_notes) {
+        entry.notes = [];
+      }
+      if (args.note?.trim()) {
+        entry.notes.push({ text: args.note.trim(), added_at: now });
+      }
+      entry.updated_at = now;
+
+      return {
+        result: this.structuredResult(entry),
+        changed: true,
+      };
+    });
+  }
+
+  /**
+   * Removes a paper from one collection, or from the library entirely
+   * @param args Object containing paper_id and an optional collection
+   * @returns Object describing what was removed as JSON
+   */
+  private async removeSavedPaper(args: RemoveSavedPaperArgs) {
+    const paperId = this.stripVersion(args.paper_id.trim());
+
+    return this.updateLibrary(async (library) => {
+      const entry = library.papers[paperId];
+      if (!entry) {
+        return { result: this.notInLibrary(paperId), changed: false };
+      }
+
+      if (args.collection !== undefined) {
+        const collection = args.collection.trim();
+        if (!entry.collections.includes(collection)) {
+          return {
+            result: { content: [{ type: 'text', text: `Paper ${paperId} is not in collection "${collection}"` }], isError: true },
+            changed: false,
+          };
+        }
+        entry.collections = entry.collections.filter((name) => name !== collection);
+        entry.updated_at = new Date().toISOString();
+        return {
+          result: this.structuredResult({ paper_id: paperId, removed_from: collection }),
+          changed: true,
+        };
+      }
+
+      delete library.papers[paperId];
+      return {
+        result: this.structuredResult({ paper_id: paperId, removed_from: 'library' }),
+        changed: true,
+      };
+    });
+  }
+
+  /**
+   * Lists saved papers, most recently saved first
+   * @param args Object containing optional collection, tag and text filters
+   * @returns Object containing the matching entries and a count per collection as JSON
+   */
+  private async listLibrary(args: ListLibraryArgs) {
+    return this.updateLibrary(async (library) => {
+      const entries = Object.values(library.papers);
+      const tags = this.normalizeLabels(args.tags, true);
+      const query = args.query?.trim().toLowerCase();
+
+      const matching = entries
+        .filter((entry) => args.collection === undefined || entry.collections.includes(args.collection.trim()))
+        .filter((entry) => tags.every((tag) => entry.tags.includes(tag)))
+        .filter(
+          (entry) =>
+            !query ||
+            [entry.metadata.title, ...entry.metadata.authors, ...entry.notes.map((note) => note.text)].some((text) =>
+              text.toLowerCase().includes(query)
+            )
+        )
+        .sort((a, b) => b.saved_at.localeCompare(a.saved_at));
+
+      const collections: Record<string, number> = {};
+      for (const entry of entries) {
+        for (const collection of entry.collections) {
+          collections[collection] = (collections[collection] || 0) + 1;
+        }
+      }
+
+      const papers = matching.map((entry) => {
+        if (args.include_metadata) {
+          return entry;
+        }
+        const { metadata, ...rest } = entry;
+        return {
+          ...rest,
+          title: metadata.title,
+          authors: metadata.authors,
+          published: metadata.published,
+          primary_category: metadata.primary_category,
+        };
+      });
+
+      return {
+        result: this.structuredResult({ total_saved: entries.length, collections, count: papers.length, papers }),
+        changed: false,
+      };
+    });
+  }
+
+  /**
+   * Runs a read-modify-write of the saved searches
+   */
+  private async updateSavedSearches(
+    update: (saved: SavedSearches) => Promise<{ result: ToolResult; changed: boolean }>
+  ): Promise<ToolResult> {
+    return this.updateDataFile<SavedSearches>(this.savedSearchesPath, { searches: {} }, update);
+  }
+
+  /**
+   * Builds the error result for a saved search that does not exist
+   */
+  private unknownSavedSearch(name: string): ToolResult {
+    return {
+      content: [{ type: 'text', text: `No saved search named "${name}". Create it with save_search first` }],
+      isError: true,
+    };
+  }
+
+  /**
+   * Describes a saved search without its list of seen IDs
+   */
+  private summarizeSavedSearch(entry: SavedSearch) {
+    const { seen_ids, ...rest } = entry;
+    return { ...rest, seen_count: seen_ids.length };
+  }
+
+  /**
+   * Saves a search under a name, replacing any search saved under it before
+   * Replacing a search with different criteria forgets what the old one had seen
+   * @param args Object containing the name and search_papers arguments
+   * @returns Object describing the saved search as JSON
+   */
+  private async saveSearch(args: SaveSearchArgs) {
+    const name = args.name.trim();
+    if (!name) {
+      throw new McpError(ErrorCode.InvalidParams, 'name must not be empty');
+    }
+
+    // A check always asks arXiv, so the cache flag is not worth keeping
+    const { bypass_cache, ...search } = args.search;
+    if (!search.sort_by) {
+      search.sort_by = 'submittedDate';
+      search.sort_order = search.sort_order || 'descending';
+    }
+
+    // Fails with InvalidParams on a malformed query expression or date
+    if (!this.buildSearchParams(search).search_query) {
+      throw new McpError(ErrorCode.InvalidParams, 'search needs at least one search criterion');
+    }
+
+    return this.updateSavedSearches(async (saved) => {
+      const existing = saved.searches[name];
+      const unchanged = existing !== undefined && JSON.stringify(existing.search) === JSON.stringify(search);
+      const now = new Date().toISOString();
+      const entry: SavedSearch = {
+        name,
+        search,
+        created_at: existing?.created_at || now,
+        updated_at: now,
+        last_checked_at: unchanged ? existing.last_checked_at : null,
+        seen_ids: unchanged ? existing.seen_ids : [],
+      };
+      saved.searches[name] = entry;
+
+      return {
+        result: this.structuredResult({ saved: !existing, search: this.summarizeSavedSearch(entry) }),
+        changed: true,
+      };
+    });
+  }
+
+  /**
+   * Runs a saved search against arXiv and returns the papers it has not returned before
+   * The first check of a search reports all of its results as new
+   * @param args Object containing the name and whether to remember the results
+   * @returns Object containing the new papers as JSON
+   */
+  private async checkSavedSearch(args: CheckSavedSearchArgs): Promise<ToolResult> {
+    const name = args.name.trim();
+
+    const search = await this.updateDataFile<SavedSearches, SearchPapersArgs | undefined>(
+      this.savedSearchesPath,
+      { searches: {} },
+      async (saved) => ({ result: saved.searches[name]?.search, changed: false })
+    );
+    if (!search) {
+      return this.unknownSavedSearch(name);
+    }
+
+    // Queried outside the data file lock, so a slow arXiv does not hold up the library tools.
+    // A cached result could hide papers announced since it was stored
+    const response = await this.queryArxiv(this.buildSearchParams(search), true);
+    if ('error' in response) {
+      return { content: [{ type: 'text', text: `Error searching arXiv: ${response.error}` }], isError: true };
+    }
+
+    return this.updateSavedSearches(async (saved) => {
+      const entry = saved.searches[name];
+      if (!entry) {
+        return { result: this.unknownSavedSearch(name), changed: false };
+      }
+      if (JSON.stringify(entry.search) !== JSON.stringify(search)) {
+        return {
+          result: { content: [{ type: 'text', text: `Saved search "${name}" was replaced during the check. Check it again` }], isError: true },
+          changed: false,
+        };
+      }
+
+      const seen = new Set(entry.seen_ids);
+      const papers = response.papers.filter((paper) => !seen.has(this.stripVersion(paper.arxiv_id)));
+      const checkedAt = new Date().toISOString();
+      const lastCheckedAt = entry.last_checked_at;
+
+      const markSeen = args.mark_seen !== false;
+      if (markSeen) {
+        entry.seen_ids = [...papers.map((paper) => this.stripVersion(paper.arxiv_id)), ...entry.seen_ids].slice(0, MAX_SEEN_IDS);
+        entry.last_checked_at = checkedAt;
+      }
+
+      return {
+        result: this.structuredResult({
+          name,
+          last_checked_at: lastCheckedAt,
+          checked_at: checkedAt,
+          total_results: response.total_results,
+          new_count: papers.length,
+          papers,
+        }),
+        changed: markSeen,
+      };
+    });
+  }
+
+  /**
+   * Lists the saved searches by name
+   * @returns Object containing each search with its last check time and how many papers it has seen as JSON
+   */
+  private async listSavedSearches() {
+    return this.updateSavedSearches(async (saved) => {
+      const searches = Object.values(saved.searches)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((entry) => this.summarizeSavedSearch(entry));
+
+      return {
+        result: this.structuredResult({ count: searches.length, searches }),
+        changed: false,
+      };
+    });
+  }
+
+  /**
+   * Deletes a saved search
+   * @param args Object containing the name
+   * @returns Object naming the deleted search as JSON
+   */
+  private async deleteSavedSearch(args: DeleteSavedSearchArgs) {
+    const name = args.name.trim();
+
+    return this.updateSavedSearches(async (saved) => {
+      if (!saved.searches[name]) {
+        return { result: this.unknownSavedSearch(name), changed: false };
+      }
+
+      delete saved.searches[name];
+      return {
+        result: this.structuredResult({ name, deleted: true }),
+        changed: true,
+      };
+    });
+  }
+
+  /**
+   * Splits text into index terms: lowercased words without stop words, with plurals folded to the singular
+   */
+  private tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+      .filter((word) => word.length > 1 && !FULLTEXT_STOP_WORDS.has(word))
+      .map((word) => {
+        if (word.endsWith('sses')) {
+          return word.slice(0, -2);
+        }
+        if (word.length > 4 && word.endsWith('ies')) {
+          return `${word.slice(0, -3)}y`;
+        }
+        return word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word) ? word.slice(0, -1) : word;
+      });
+  }
+
+  /**
+   * Loads the full-text index from disk, once
+   * A missing or corrupt index starts empty
+   */
+  private async loadFulltextIndex(): Promise<FulltextIndex> {
+    if (this.fulltextIndex) {
+      return this.fulltextIndex;
+    }
+
+    const index: FulltextIndex = { documents: new Map(), postings: new Map() };
+    const indexPath = path.join(this.fulltextIndexDir, 'index.json');
+    try {
+      if (await fs.pathExists(indexPath)) {
+        const stored = await fs.readJson(indexPath);
+        index.documents = new Map(Object.entries(stored.documents));
+        for (const [term, postings] of Object.entries(stored.postings)) {
+          index.postings.set(term, new Map(Object.entries(postings as Record<string, number>)));
+        }
+      }
+    } catch (error) {
+      console.error('Error reading full-text index:', error);
+    }
+
+    this.fulltextIndex = index;
+    return index;
+  }
+
+  /**
+   * Adds a paper's text to the full-text index, replacing an earlier entry for the same paper
+   * Failures are logged, not thrown - indexing must not fail the read that triggered it
+   * @param paperId arXiv paper ID, optionally with version
+   * @param text Extracted text or Markdown of the whole paper
+   */
+  private async indexPaperText(paperId: string, text: string) {
+    const task = this.fulltextIndexChain.then(async () => {
+      const index = await this.loadFulltextIndex();
+      const normalized = text.replace(/\s+/g, ' ').trim();
+      // Reading a paper again usually yields the same text, which needs no rewrite of the index
+      const hash = createHash('sha256').update(normalized).digest('hex');
+      if (index.documents.get(paperId)?.hash === hash) {
+        return;
+      }
+
+      for (const postings of index.postings.values()) {
+        postings.delete(paperId);
+      }
+
+      const terms = this.tokenize(normalized);
+      for (const term of terms) {
+        if (!index.postings.has(term)) {
+          index.postings.set(term, new Map());
+        }
+        const postings = index.postings.get(term) as Map<string, number>;
+        postings.set(paperId, (postings.get(paperId) || 0) + 1);
+      }
+      for (const [term, postings] of index.postings) {
+        if (postings.size === 0) {
+          index.postings.delete(term);
+        }
+      }
+      index.documents.set(paperId, {
+        length: terms.length,
+        characters: normalized.length,
+        hash,
+        indexed_at: new Date().toISOString(),
+      });
+
+      // Snippets are cut from the stored text, so it is kept next to the index
+      await fs.outputFile(path.join(this.fulltextIndexDir, `${paperId.replace(/\//g, '_')}.txt`), normalized);
+      await fs.outputJson(path.join(this.fulltextIndexDir, 'index.json'), {
+        documents: Object.fromEntries(index.documents),
+        postings: Object.fromEntries(
+          [...index.postings].map(([term, postings]) => [term, Object.fromEntries(postings)])
+        ),
+      });
+    });
+
+    this.fulltextIndexChain = task.catch((error) => {
+      console.error(`Error indexing text of ${paperId}:`, error);
+    });
+    await this.fulltextIndexChain;
+  }
+
+  /**
+   * Picks up to three passages of a paper that contain the most distinct query terms
+   * @param text Stored paper text
+   * @param terms Query terms
+   * @returns Snippets in document order
+   */
+  private buildSnippets(text: string, terms: string[]): string[] {
+    const hits: { position: number; term: string }[] = [];
+    for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+      const [term] = this.tokenize(match[0]);
+      if (term && terms.includes(term)) {
+        hits.push({ position: match.index as number, term });
+      }
+    }
+
+    const windows = hits.map((hit) => ({
+      start: Math.max(0, hit.position - SNIPPET_RADIUS),
+      end: Math.min(text.length, hit.position + SNIPPET_RADIUS),
+      distinct: new Set(
+        hits
+          .filter((other) => Math.abs(other.position - hit.position) <= SNIPPET_RADIUS)
+          .map((other) => other.term)
+      ).size,
+    }));
+
+    const chosen: typeof windows = [];
+    for (const window of [...windows].sort((a, b) => b.distinct - a.distinct || a.start - b.start)) {
+      if (chosen.length === 3) {
+        break;
+      }
+      if (chosen.every((other) => window.end <= other.start || window.start >= other.end)) {
+        chosen.push(window);
+      }
+    }
+
+    return chosen
+      .sort((a, b) => a.start - b.start)
+      .map((window) => {
+        // Trim partial words at the edges of the window
+        const snippet = text
+          .slice(window.start, window.end)
+          .replace(window.start > 0 ? /^\S*\s/ : /^/, '')
+          .replace(window.end < text.length ? /\s\S*$/ : /$/, '');
+        return `${window.start > 0 ? '...' : ''}${snippet}${window.end < text.length ? '...' : ''}`;
+      });
+  }
+
+  /**
+   * Searches the full text of papers read with get_paper_content, ranked by BM25
+   * @param args Object containing the query and result limit
+   * @returns Object containing the ranked papers with snippets as JSON
+   */
+  private async searchLibrary(args: SearchLibraryArgs) {
+    const indexed: string[] = [];
+    if (args.index_cached_pdfs) {
+      const known = (await this.loadFulltextIndex()).documents;
+      for (const pdf of await this.getCachedPdfs()) {
+        if (known.has(pdf.paper_id)) {
+          continue;
+        }
+        try {
+          await this.indexPaperText(pdf.paper_id, await this.extractTextFromPdf(pdf.path));
+          indexed.push(pdf.paper_id);
+        } catch (error) {
+          console.error(`Error indexing cached PDF of ${pdf.paper_id}:`, error);
+        }
+      }
+    }
+
+    const index = await this.loadFulltextIndex();
+    const terms = [...new Set(this.tokenize(args.query))];
+    const documentCount = index.documents.size;
+    const averageLength =
+      [...index.documents.values()].reduce((total, document) => total + document.length, 0) / (documentCount || 1);
+
+    const scores = new Map<string, { score: number; matched: string[] }>();
+    for (const term of terms) {
+      const postings = index.postings.get(term);
+      if (!postings) {
+        continue;
+      }
+
+      const idf = Math.log(1 + (documentCount - postings.size + 0.5) / (postings.size + 0.5));
+      for (const [paperId, frequency] of postings) {
+        const length = index.documents.get(paperId)?.length || averageLength;
+        const weight =
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+        const entry = scores.get(paperId) || { score: 0, matched: [] };
+        entry.score += weight;
+        entry.matched.push(term);
+        scores.set(paperId, entry);
+      }
+    }
+
+    const ranked = [...scores.entries()]
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, args.limit || 10);
+
+    const results = await Promise.all(
+      ranked.map(async ([paperId, { score, matched }]) => {
+        const textPath = path.join(this.fulltextIndexDir, `${paperId.replace(/\//g, '_')}.txt`);
+        const text = (await fs.pathExists(textPath)) ? await fs.readFile(textPath, 'utf-8') : '';
+        return {
+          paper_id: paperId,
+          score: Math.round(score * 1000) / 1000,
+          matched_terms: matched,
+          snippets: this.buildSnippets(text, terms),
+        };
+      })
+    );
+
+    return this.structuredResult({
+      query: args.query,
+      indexed_papers: documentCount,
+      ...(args.index_cached_pdfs && { newly_indexed: indexed }),
+      results,
+    });
+  }
+
+  /**
+   * Gets a paper's HTML rendering as Markdown, caching the HTML on disk
+   * @param paperId arXiv paper ID, optionally with version
+   * @returns Markdown, or null when arXiv has no HTML version of the paper
+   */
+  private async fetchHtmlMarkdown(paperId: string): Promise<string | null> {
+    const htmlPath = path.join(this.htmlCacheDir, `${paperId.replace(/\//g, '_')}.html`);
+    const url = this.getHtmlUrl(paperId);
+    let html: string;
+
+    if (await fs.pathExists(htmlPath)) {
+      console.error(`Using cached HTML for ${paperId}`);
+      html = await fs.readFile(htmlPath, 'utf-8');
+    } else {
+      console.error(`Downloading HTML for ${paperId} from ${url}`);
+      try {
+        const response = await this.arxivGet(url, {
+          responseType: 'text',
+          timeout: this.downloadTimeoutMs,
+        });
+        html = String(response.data);
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+
+      // Papers without a rendering get an HTML page explaining why, with no article in it
+      if (!/<article\b/i.test(html)) {
+        return null;
+      }
+      await fs.outputFile(htmlPath, html);
+    }
+
+    return this.htmlToMarkdown(html, `${url}/`);
+  }
+
+  /**
+   * Converts the article in an arXiv HTML page to Markdown
+   * @param html Full HTML page
+   * @param baseUrl URL that relative image sources are resolved against
+   * @returns Markdown of the article, or of the whole page when it has no article element
+   */
+  private htmlToMarkdown(html: string, baseUrl: string): string {
+    const article = html.match(/<article\b[\s\S]*<\/article>/i)?.[0] ?? html;
+    const absolute = article.replace(
+      /(<img\b[^>]*?\ssrc=")(?!https?:|data:)([^"]+)"/gi,
+      (_, prefix: string, src: string) => `${prefix}${new URL(src, baseUrl).href}"`
+    );
+
+    return HTML_CONVERTER.turndown(absolute)
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Downloads and unpacks a paper's e-print into the source cache
+   * An e-print is a gzipped tar archive, a single gzipped .tex file, or the PDF itself when the
+   * authors uploaded no source. A PDF goes into the PDF cache and leaves an empty source directory
+   * @param paperId arXiv paper ID, optionally with version
+   * @returns Directory holding the unpacked source files
+   */
+  private async downloadSource(paperId: string): Promise<string> {
+    const sourceDir = path.join(this.sourceCacheDir, paperId.replace(/\//g, '_'));
+    if (await fs.pathExists(sourceDir)) {
+      console.error(`Using cached source for ${paperId}`);
+      return sourceDir;
+    }
+
+    const url = this.getEprintUrl(paperId);
+    console.error(`Downloading source for ${paperId} from ${url}`);
+    const response = await this.arxivGet(url, {
+      responseType: 'arraybuffer',
+      timeout: this.downloadTimeoutMs,
+    });
+
+    const data = Buffer.from(response.data);
+    // Unpack next to the final directory so a failed download never leaves a partial source behind
+    const partialDir = `${sourceDir}.partial`;
+    const downloadPath = `${sourceDir}.download`;
+    await fs.remove(partialDir);
+    await fs.ensureDir(partialDir);
+
+    try {
+      if (data.subarray(0, 5).toString('latin1') === '%PDF-') {
+        await fs.outputFile(this.getPdfCachePath(paperId), data);
+        await this.enforcePdfCacheLimit(this.getPdfCachePath(paperId));
+      } else {
+        // Decompress as a stream, so a large e-print does not block the event loop shared by every session
+        if (data[0] === 0x1f && data[1] === 0x8b) {
+          await pipeline(Readable.from([data]), createGunzip(), fs.createWriteStream(downloadPath));
+        } else {
+          await fs.outputFile(downloadPath, data);
+        }
+
+        const header = Buffer.alloc(262);
+        const fd = await fs.open(downloadPath, 'r');
+        try {
+          await fs.read(fd, header, 0, header.length, 0);
+        } finally {
+          await fs.close(fd);
+        }
+
+        if (header.subarray(257, 262).toString('latin1') === 'ustar') {
+          // tar refuses absolute paths and .. entries, so the archive cannot write outside partialDir.
+          // Only regular files and directories are unpacked: a symbolic or hard link could point at any file on the server
+          await tar.x({
+            file: downloadPath,
+            cwd: partialDir,
+            filter: (_, entry) => 'type' in entry && ['File', 'OldFile', 'ContiguousFile', 'Directory'].includes(entry.type),
+          });
+        } else {
+          await fs.move(downloadPath, path.join(partialDir, 'main.tex'));
+        }
+      }
+    } finally {
+      await fs.remove(downloadPath);
+    }
+
+    await fs.move(partialDir, sourceDir, { overwrite: true });
+    return sourceDir;
+  }
+
+  /**
+   * Checks that a path in an unpacked source tree is a regular file that really lies inside the tree
+   * Links are resolved first, so none can expose a file elsewhere on the server
+   * @param filePath Path to check
+   * @param sourceDir Directory holding the unpacked source
+   */
+  private async isSourceFile(filePath: string, sourceDir: string): Promise<boolean> {
+    try {
+      const realPath = await fs.realpath(filePath);
+      return realPath.startsWith((await fs.realpath(sourceDir)) + path.sep) && (await fs.stat(realPath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Finds the main .tex file of a source tree: the file with \documentclass and \begin{document},
+   * preferring conventional names and then the largest file
+   * @param sourceDir Directory holding the unpacked source
+   * @returns Path relative to sourceDir, or null when there is no main file
+   */
+  private async findMainTexFile(sourceDir: string): Promise<string | null> {
+    const files = (await fs.readdir(sourceDir, { recursive: true }))
+      .map(String)
+      .filter((file) => file.toLowerCase().endsWith('.tex'));
+
+    const candidates: { file: string; score: number; size: number }[] = [];
+    for (const file of files) {
+      if (!(await this.isSourceFile(path.join(sourceDir, file), sourceDir))) {
+        continue;
+      }
+      const content = await fs.readFile(path.join(sourceDir, file), 'latin1');
+      const body = content.replace(/(?<!\\)%.*$/gm, '');
+      if (!/\\document(class|style)\b/.test(body)) {
+        continue;
+      }
+
+      const score =
+        (/\\begin\s*\{document\}/.test(body) ? 2 : 0) +
+        (/^(main|ms|paper|article)\.tex$/i.test(path.basename(file)) ? 1 : 0);
+      candidates.push({ file, score, size: content.length });
+    }
+
+    candidates.sort((a, b) => b.score - a.score || b.size - a.size);
+    return candidates.length > 0 ? candidates[0].file : null;
+  }
+
+  /**
+   * Inlines the files named by \input and \include, recursively
+   * Paths are relative to the source root, as when LaTeX runs in that directory. Commented-out
+   * commands, missing files and paths outside the source root are left as they are
+   * @param content LaTeX source
+   * @param sourceDir Directory holding the unpacked source
+   * @param depth Current nesting depth
+   * @returns LaTeX source with inputs inlined
+   */
+  private async resolveTexInputs(content: string, sourceDir: string, depth = 0): Promise<string> {
+    if (depth >= MAX_TEX_INPUT_DEPTH) {
+      return content;
+    }
+
+    const lines: string[] = [];
+    for (const line of content.split('\n')) {
+      const commentIndex = line.search(/(?<!\\)%/);
+      const code = commentIndex === -1 ? line : line.slice(0, commentIndex);
+      const comment = commentIndex === -1 ? '' : line.slice(commentIndex);
+
+      let resolved = '';
+      let lastIndex = 0;
+      for (const match of code.matchAll(/\\(?:input|include)\s*\{([^}]+)\}/g)) {
+        resolved += code.slice(lastIndex, match.index);
+        lastIndex = (match.index as number) + match[0].length;
+
+        const name = match[1].trim();
+        const candidates = [name, `${name}.tex`].map((file) => path.resolve(sourceDir, file));
+        let included: string | null = null;
+        for (const candidate of candidates) {
+          if (await this.isSourceFile(candidate, sourceDir)) {
+            included = await fs.readFile(candidate, 'utf-8');
+            break;
+          }
+        }
+
+        resolved += included === null
+          ? match[0]
+          : await this.resolveTexInputs(included, sourceDir, depth + 1);
+      }
+
+      lines.push(resolved + code.slice(lastIndex) + comment);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Lightly cleans LaTeX into readable text, leaving math untouched
+   * Drops comments, the preamble and layout commands, unwraps text formatting and
+   * turns sectioning commands into Markdown headings
+   */
+  private cleanLatex(latex: string): string {
+    let text = latex
+      .split('\n')
+      .filter((line) => !/^\s*%/.test(line))
+      .map((line) => line.replace(/(?<!\\)%.*$/, ''))
+      .join('\n');
+
+    const body = text.match(/\\begin\s*\{document\}([\s\S]*?)(\\end\s*\{document\}|$)/);
+    if (body) {
+      text = body[1];
+    }
+
+    const headingLevels: Record<string, string> = {
+      part: '#',
+      chapter: '#',
+      section: '##',
+      subsection: '###',
+      subsubsection: '####',
+    };
+
+    return text
+      .replace(/\\(part|chapter|section|subsection|subsubsection)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g, (_, command: string, title: string) =>
+        `\n\n${headingLevels[command]} ${title.trim()}\n\n`
+      )
+      .replace(/\\paragraph\*?\s*\{([^}]*)\}/g, '\n\n**$1** ')
+      .replace(/\\begin\s*\{abstract\}/g, '\n\n## Abstract\n\n')
+      .replace(/\\end\s*\{abstract\}/g, '\n\n')
+      .replace(/\\(?:label|vspace\*?|hspace\*?|bibliographystyle)\s*\{[^}]*\}/g, '')
+      .replace(/\\(?:maketitle|noindent|centering|clearpage|newpage|medskip|smallskip|bigskip)\b[ \t]*/g, '')
+      .replace(/\\(?:emph|textbf|textit|texttt|textsc|underline)\s*\{([^{}]*)\}/g, '$1')
+      .replace(/\\cite[pt]?\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}/g, (_, keys: string) =>
+        `[${keys.split(',').map((key) => key.trim()).join(', ')}]`
+      )
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Gets a paper's LaTeX source, or its PDF text when arXiv has no source for it
+   * @param args Object containing paper_id, version and format
+   * @returns Object containing the source and the files it was assembled from as JSON
+   */
+  private async getPaperSource(args: GetPaperSourceArgs) {
+    try {
+      const paperId = this.withVersion(args.paper_id, args.version);
+      const sourceDir = await this.downloadSource(paperId);
+      const mainFile = await this.findMainTexFile(sourceDir);
+
+      if (!mainFile) {
+        // Only a PDF was submitted - serve its extracted text instead
+        const pdfContent = await this.getPaperContent({ paper_id: args.paper_id, version: args.version });
+        return {
+          ...pdfContent,
+          content: [
+            {
+              type: 'text',
+              text: `No LaTeX source is available for ${paperId}; returning text extracted from the PDF instead`,
+            },
+            ...pdfContent.content,
+          ],
+          structuredContent: pdfContent.structuredContent && {
+            paper_id: paperId,
+            main_file: null,
+            tex_files: [],
+            format: 'text',
+            content: pdfContent.structuredContent.text,
+          },
+        };
+      }
+
+      const latex = await this.resolveTexInputs(
+        await fs.readFile(path.join(sourceDir, mainFile), 'utf-8'),
+        sourceDir
+      );
+      const files = (await fs.readdir(sourceDir, { recursive: true }))
+        .map(String)
+        .filter((file) => file.toLowerCase().endsWith('.tex'))
+        .sort();
+
+      return this.structuredResult({
+        paper_id: paperId,
+        main_file: mainFile,
+        tex_files: files,
+        format: args.format || 'latex',
+        content: args.format === 'text' ? this.cleanLatex(latex) : latex,
+      });
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error getting paper source: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Normalizes a version given as 2, "2" or "v2" to "v2"
+   */
+  private normalizeVersion(version: number | string): string {
+    const match = String(version).trim().match(/^v?(\d+)$/i);
+    if (!match || parseInt(match[1], 10) < 1) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid version "${version}". Use a number such as 2 or "v2"`);
+    }
+    return `v${parseInt(match[1], 10)}`;
+  }
+
+  /**
+   * Strips any version suffix from an arXiv ID (1706.03762v7 -> 1706.03762)
+   */
+  private stripVersion(paperId: string): string {
+    return paperId.trim().replace(/v\d+$/, '');
+  }
+
+  /**
+   * Applies a requested version to a paper ID, replacing any version already in the ID
+   */
+  private withVersion(paperId: string, version?: number | string): string {
+    return version === undefined ? paperId : `${this.stripVersion(paperId)}${this.normalizeVersion(version)}`;
+  }
+
+  /**
+   * Parses an OAI-PMH response document
+   * @param xmlData Response body
+   * @param allowedErrors Error codes that are not failures, such as noRecordsMatch for an empty ListRecords
+   * @returns The OAI-PMH element, or null for an allowed error
+   */
+  private parseOaiResponse(xmlData: string, allowedErrors: string[] = []): any {
+    const document = OAI_PARSER.parse(xmlData);
+    const oai = document['OAI-PMH'] || {};
+
+    if (oai.error) {
+      const code = oai.error.code || 'error';
+      if (allowedErrors.includes(code)) {
+        return null;
+      }
+      throw new Error(`arXiv OAI-PMH ${code}: ${typeof oai.error === 'object' ? oai.error['#text'] : oai.error}`);
+    }
+
+    return oai;
+  }
+
+  /**
+   * Fetches a paper's submission history from the arXivRaw OAI-PMH metadata format
+   * The search API only ever describes one version, so this is the only source for the full list
+   * @param paperId arXiv paper ID, with or without a version
+   * @returns Every version with its submission date, oldest first
+   */
+  private async fetchPaperVersions(paperId: string): Promise<PaperVersion[]> {
+    const baseId = this.stripVersion(paperId);
+    const url = new URL(this.endpoints.oaiBaseUrl);
+    url.searchParams.set('verb', 'GetRecord');
+    url.searchParams.set('identifier', `oai:arXiv.org:${baseId}`);
+    url.searchParams.set('metadataPrefix', 'arXivRaw');
+
+    const response = await this.arxivGet(url.toString());
+    const oai = this.parseOaiResponse(response.data);
+
+    const versions = oai.GetRecord?.record?.[0]?.metadata?.arXivRaw?.version || [];
+    return versions.map((version: any) => {
+      const submitted = new Date(String(version.date));
+      return {
+        version: version.version,
+        submitted: isNaN(submitted.getTime()) ? String(version.date) : submitted.toISOString(),
+        size: version.size ? String(version.size) : null,
+      };
+    });
+  }
+
+  /**
+   * Lists every version of a paper with its submission date
+   * @param args Object containing paper_id
+   * @returns Object containing the versions as JSON
+   */
+  private async listPaperVersions(args: ListPaperVersionsArgs) {
+    const versions = await this.fetchPaperVersions(args.paper_id);
+
+    return this.structuredResult({
+      paper_id: this.stripVersion(args.paper_id),
+      latest_version: versions.length > 0 ? versions[versions.length - 1].version : null,
+      versions,
+    });
+  }
+
+  /**
+   * Converts a record in the arXiv OAI-PMH metadata format to the paper shape of processArxivResponse
+   * The format describes the paper without saying which version is current, so arxiv_id has no version
+   * @param metadata The parsed arXiv element of a record
+   * @returns The paper
+   */
+  private oaiRecordToPaper(metadata: any): ArxivPaper {
+    const text = (value: any) => (value === undefined || value === null ? '' : String(value).replace(/\s+/g, ' ').trim());
+    const optional = (value: any) => text(value) || null;
+    const asArray = (value: any): any[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+    // OAI-PMH dates are plain days (2017-06-12)
+    const isoDate = (value: any) => {
+      const date = new Date(text(value));
+      return isNaN(date.getTime()) ? text(value) : date.toISOString();
+    };
+
+    const authorDetails: ArxivAuthor[] = asArray(metadata.authors?.author).map((author: any) => ({
+      name: [text(author.forenames), text(author.keyname), text(author.suffix)].filter(Boolean).join(' '),
+      affiliations: asArray(author.affiliation).map(text).filter(Boolean),
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        switch (request.params.name) {
-          case 'search_papers':
-            return await this.searchPapers(request.params.arguments as unknown as SearchPapersArgs);
-          case 'get_paper':
-            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'Missing or invalid paper_id parameter'
-              );
-            }
-            return await this.getPaper(request.params.arguments as unknown as GetPaperArgs);
-          case 'search_by_category':
-            if (!request.params.arguments || typeof request.params.arguments.category !== 'string') {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'Missing or invalid category parameter'
-              );
-            }
-            return await this.searchByCategory(request.params.arguments as unknown as SearchByCategoryArgs);
-          case 'get_paper_content':
-            if (!request.params.arguments || typeof request.params.arguments.paper_id !== 'string') {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'Missing or invalid paper_id parameter'
-              );
+    const arxivId = text(metadata.id);
+    const categories = text(metadata.categories).split(' ').filter(Boolean);
+    const published = isoDate(metadata.created);
+
+    return {
+      id: `http://arxiv.org/abs/${arxivId}`,
+      title: text(metadata.title),
+      summary: text(metadata.abstract),
+      authors: authorDetails.map((author) => author.name),
+      author_details: authorDetails,
+      published,
+      updated: metadata.updated ? isoDate(metadata.updated) : published,
+      categories,
+      primary_category: categories[0] || null,
+      doi: optional(metadata.doi),
+      journal_ref: optional(metadata['journal-ref']),
+      comment: optional(metadata.comments),
+      links: [
+        { href: `http://arxiv.org/abs/${arxivId}`, rel: 'alternate', type: 'text/html' },
+        { href: `http://arxiv.org/pdf/${arxivId}`, rel: 'related', type: 'application/pdf', title: 'pdf' },
+        ...(metadata.doi ? [{ href: `http://dx.doi.org/${text(metadata.doi)}`, rel: 'related', type: 'text/html', title: 'doi' }] : []),
+      ],
+      arxiv_id: arxivId,
+      version: null,
+    };
+  }
+
+  /**
+   * Fetches one page of an OAI-PMH ListRecords harvest in the arXiv metadata format
+   * @param params The harvest criteria, or just the resumption token of the page to fetch
+   * @returns The page's records and the token for the next page, if any
+   */
+  private async fetchOaiRecords(
+    params: { set?: string; from?: string; until?: string } | { resumptionToken: string }
+  ): Promise<OaiRecordsPage> {
+    const url = new URL(this.endpoints.oaiBaseUrl);
+    url.searchParams.set('verb', 'ListRecords');
+    // A resumption token carries the original criteria and may not be combined with them
+    if (!('resumptionToken' in params)) {
+      url.searchParams.set('metadataPrefix', 'arXiv');
+    }
+    for (const [key, value] of Object.entries(params)) {
+      if (value) {
+        url.searchParams.set(key, value);
+      }
+    }
+
+    const response = await this.arxivGet(url.toString());
+    const oai = this.parseOaiResponse(response.data, ['noRecordsMatch']);
+    if (!oai) {
+      return { records: [], resumption_token: null, complete_list_size: 0 };
+    }
+
+    const token = oai.ListRecords?.resumptionToken;
+    const tokenText = typeof token === 'object' ? token['#text'] : token;
+    const listSize = typeof token === 'object' ? parseInt(token.completeListSize, 10) : NaN;
+
+    return {
+      records: oai.ListRecords?.record || [],
+      // The last page carries an empty token
+      resumption_token: tokenText ? String(tokenText).trim() : null,
+      complete_list_size: isNaN(listSize) ? null : listSize,
+    };
+  }
+
+  /**
+   * Harvests paper metadata from arXiv's OAI-PMH interface into a JSONL file, following resumption tokens
+   * Requests go through the shared rate-limited queue. A failed page ends the harvest with the token to retry from
+   * @param args Object containing the set, date range, output file and limits
+   * @returns Object describing the harvest and how to continue it as JSON
+   */
+  private async harvestMetadata(args: HarvestMetadataArgs) {
+    for (const key of ['from', 'until'] as const) {
+      if (args[key] !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(args[key] as string)) {
+        throw new McpError(ErrorCode.InvalidParams, `${key} must be a date in YYYY-MM-DD format`);
+      }
+    }
+    if (args.set !== undefined && !/^[a-z-]+(:[A-Za-z.-]+)*$/.test(args.set)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid set "${args.set}". Use a set spec such as cs or physics:hep-th`);
+    }
+    if (args.resumption_token && !args.output_path) {
+      throw new McpError(ErrorCode.InvalidParams, 'output_path is required to resume a harvest');
+    }
+
+    const maxRecords = args.max_records !== undefined && args.max_records > 0 ? args.max_records : DEFAULT_HARVEST_MAX_RECORDS;
+    const defaultName = `${[args.set || 'all', args.from || 'start', args.until || 'latest'].join('_').replace(/:/g, '-')}.jsonl`;
+    const outputPath = path.resolve(this.harvestDir, args.output_path || defaultName);
+    // A fresh harvest truncates its file, so it may only write inside the harvest directory
+    const relativePath = path.relative(this.harvestDir, outputPath);
+    if (!relativePath || relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+      throw new McpError(ErrorCode.InvalidParams, `output_path must be a file inside the harvest directory ${path.resolve(this.harvestDir)}`);
+    }
+
+    // A new harvest starts a fresh file; a resumed one appends to it
+    if (!args.resumption_token) {
+      await fs.outputFile(outputPath, '');
+    } else if (!(await fs.pathExists(outputPath))) {
+      throw new McpError(ErrorCode.InvalidParams, `No harvest file at ${outputPath} to resume`);
+    }
+
+    let token: string | null = args.resumption_token || null;
+    let recordsWritten = 0;
+    let deletedSkipped = 0;
+    let requests = 0;
+    let completeListSize: number | null = null;
+
+    try {
+      do {
+        const page = await this.fetchOaiRecords(
+          token ? { resumptionToken: token } : { set: args.set, from: args.from, until: args.until }
+        );
+        requests++;
+
+        const lines = page.records
+          .filter((record: any) => {
+            // Withdrawn papers remain in the feed as headers without metadata
+            const deleted = record.header?.status === 'deleted' || !record.metadata?.arXiv;
+            if (deleted) {
+              deletedSkipped++;
             }
-            return await this.getPaperContent(request.params.arguments as unknown as GetPaperContentArgs);
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${request.params.name}`
-            );
+            return !deleted;
+          })
+          .map((record: any) => JSON.stringify(this.oaiRecordToPaper(record.metadata.arXiv)));
+        if (lines.length > 0) {
+          await fs.appendFile(outputPath, `${lines.join('\n')}\n`);
         }
-      } catch (error) {
-        if (axios.isAxiosError(error)) {
-          return {
-            content: [
+
+        recordsWritten += lines.length;
+        completeListSize = page.complete_list_size ?? completeListSize;
+        token = page.resumption_token;
+      } while (token && recordsWritten + deletedSkipped < maxRecords);
+    } catch (error) {
+      console.error('Error harvesting metadata:', error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
               {
-                type: 'text',
-                text: `arXiv API error: ${error.response?.data || error.message}`,
+                error: `Harvest stopped: ${error instanceof Error ? error.message : String(error)}`,
+                output_path: outputPath,
+                records_written: recordsWritten,
+                // Pass back with the same output_path to retry the failed page
+                resumption_token: token,
               },
-            ],
-            isError: true,
-          };
-        }
-        throw error;
-      }
+              null,
+              2
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return this.structuredResult({
+      output_path: outputPath,
+      records_written: recordsWritten,
+      deleted_skipped: deletedSkipped,
+      requests,
+      complete: token === null,
+      complete_list_size: completeListSize,
+      resumption_token: token,
     });
   }
 
   /**
-   * Build a properly formatted arXiv search query
-   * Handles multi-word phrases by quoting them
-   * @param prefix The arXiv field prefix (all, au, ti, abs, cat)
-   * @param value The search value
-   * @returns Properly formatted search term
+   * Aligns two sequences with a longest-common-subsequence table
+   * Common leading and trailing items are skipped first, since revisions usually touch little
+   * @param before Items of the older text (words or sentences)
+   * @param after Items of the newer text
+   * @returns Every item of both sequences, marked as unchanged, removed or added
    */
-  private formatSearchTerm(prefix: string, value: string): string {
-    // Trim whitespace
-    const trimmed = value.trim();
+  private diffOperations(before: string[], after: string[]): DiffOperation[] {
+    let prefix = 0;
+    while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < before.length - prefix &&
+      suffix < after.length - prefix &&
+      before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
 
-    // If value contains spaces, it's a phrase - wrap in quotes
-    // arXiv API supports quoted phrases for exact matching
-    if (trimmed.includes(' ')) {
-      // Use %22 for quotes in URL encoding, or let axios handle it
-      return `${prefix}:"${trimmed}"`;
+    const a = before.slice(prefix, before.length - suffix);
+    const b = after.slice(prefix, after.length - suffix);
+    if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+      throw new Error(`Texts differ too much to compare (${a.length} and ${b.length} changed items)`);
     }
 
-    return `${prefix}:${trimmed}`;
+    return [
+      ...before.slice(0, prefix).map((item): DiffOperation => ({ type: 'equal', item })),
+      ...this.alignSequences(a, b),
+      ...before.slice(before.length - suffix).map((item): DiffOperation => ({ type: 'equal', item })),
+    ];
   }
 
   /**
-   * Build the complete search query from arguments
-   * Properly handles multi-word queries and combines fields with AND
+   * Aligns two sequences, using at most MAX_DIFF_TABLE_CELLS of table at a time
+   * Larger inputs are split where an optimal alignment crosses the middle of the first sequence
+   * (Hirschberg's algorithm) and each half aligned on its own
    */
-  private buildSearchQuery(args: SearchPapersArgs): string {
-    const searchTerms: string[] = [];
+  private alignSequences(a: string[], b: string[]): DiffOperation[] {
+    if (a.length < 2 || (a.length + 1) * (b.length + 1) <= MAX_DIFF_TABLE_CELLS) {
+      return this.alignWithTable(a, b);
+    }
 
-    if (args.query) {
-      searchTerms.push(this.formatSearchTerm('all', args.query));
+    const middle = Math.floor(a.length / 2);
+    const forward = this.lcsLengths(a.slice(0, middle), b);
+    const backward = this.lcsLengths(a.slice(middle).reverse(), [...b].reverse());
+    let split = 0;
+    for (let j = 1; j <= b.length; j++) {
+      if (forward[j] + backward[b.length - j] > forward[split] + backward[b.length - split]) {
+        split = j;
+      }
     }
 
-    if (args.category) {
-      // Category doesn't need quoting - it's always a single term like cs.AI
-      searchTerms.push(`cat:${args.category}`);
+    return [
+      ...this.alignSequences(a.slice(0, middle), b.slice(0, split)),
+      ...this.alignSequences(a.slice(middle), b.slice(split)),
+    ];
+  }
+
+  /**
+   * Computes the longest-common-subsequence length of a and each prefix of b, keeping two rows of the table
+   * @returns lengths[j] = LCS length of a and b[:j]
+   */
+  private lcsLengths(a: string[], b: string[]): Uint32Array {
+    let previous = new Uint32Array(b.length + 1);
+    let current = new Uint32Array(b.length + 1);
+    for (const item of a) {
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = item === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+      }
+      [previous, current] = [current, previous];
     }
+    return previous;
+  }
 
-    if (args.author) {
-      searchTerms.push(this.formatSearchTerm('au', args.author));
+  /**
+   * Aligns two sequences with a full longest-common-subsequence table
+   */
+  private alignWithTable(a: string[], b: string[]): DiffOperation[] {
+    // lengths[i * width + j] = LCS length of a[i:] and b[j:]
+    const width = b.length + 1;
+    const lengths = new Uint32Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[i] === b[j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
     }
 
-    if (args.title) {
-      searchTerms.push(this.formatSearchTerm('ti', args.title));
+    const operations: DiffOperation[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        operations.push({ type: 'equal', item: a[i] });
+        i++;
+        j++;
+      } else if (j >= b.length || (i < a.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        operations.push({ type: 'removed', item: a[i++] });
+      } else {
+        operations.push({ type: 'added', item: b[j++] });
+      }
     }
 
-    if (args.abstract) {
-      searchTerms.push(this.formatSearchTerm('abs', args.abstract));
+    return operations;
+  }
+
+  /**
+   * Computes the changes between two sequences
+   * @returns Runs of consecutive removed and added items
+   */
+  private diffSequences(before: string[], after: string[]): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    let hunk: DiffHunk | null = null;
+
+    for (const operation of this.diffOperations(before, after)) {
+      if (operation.type === 'equal') {
+        hunk = null;
+        continue;
+      }
+      if (!hunk) {
+        hunk = { removed: [], added: [] };
+        hunks.push(hunk);
+      }
+      hunk[operation.type].push(operation.item);
     }
 
-    // Join with AND operator
-    // The arXiv API expects: search_query=au:"Yann LeCun"+AND+ti:learning
-    return searchTerms.join('+AND+');
+    return hunks;
   }
 
-  public async searchPapers(args: SearchPapersArgs) {
-    const searchParams: SearchParams = {};
+  /**
+   * Renders a word-level diff inline, marking removals as [-...-] and additions as {+...+}
+   * @returns The marked-up text, or null if nothing changed
+   */
+  private renderInlineDiff(before: string, after: string): string | null {
+    if (before === after) {
+      return null;
+    }
 
-    // Build search query using the new method
-    const searchQuery = this.buildSearchQuery(args);
-    if (searchQuery) {
-      searchParams.search_query = searchQuery;
+    const output: string[] = [];
+    let removed: string[] = [];
+    let added: string[] = [];
+    const flush = () => {
+      if (removed.length > 0) {
+        output.push(`[-${removed.join(' ')}-]`);
+      }
+      if (added.length > 0) {
+        output.push(`{+${added.join(' ')}+}`);
+      }
+      removed = [];
+      added = [];
+    };
+
+    const words = (text: string) => text.split(/\s+/).filter(Boolean);
+    for (const operation of this.diffOperations(words(before), words(after))) {
+      if (operation.type === 'equal') {
+        flush();
+        output.push(operation.item);
+      } else if (operation.type === 'removed') {
+        removed.push(operation.item);
+      } else {
+        added.push(operation.item);
+      }
+    }
+    flush();
+
+    return output.join(' ');
+  }
+
+  /**
+   * Splits text into sentences for a sentence-level diff
+   */
+  private splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+(?=[A-Z0-9(\[])/)
+      .map((sentence) => sentence.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Diffs two versions of a paper: title and abstract word by word, extracted text sentence by sentence
+   * @param args Object containing paper_id, from_version, to_version and include_full_text
+   * @returns Object containing the differences as JSON
+   */
+  private async diffPaperVersions(args: DiffPaperVersionsArgs) {
+    try {
+      const fromId = this.withVersion(args.paper_id, args.from_version);
+      const toId = this.withVersion(args.paper_id, args.to_version);
+
+      const response = await this.queryArxiv({ id_list: `${fromId},${toId}` });
+      const papers = 'papers' in response ? response.papers : [];
+      const fromPaper = papers.find((paper) => paper.arxiv_id === fromId);
+      const toPaper = papers.find((paper) => paper.arxiv_id === toId);
+      if (!fromPaper || !toPaper) {
+        throw new Error(`Version ${!fromPaper ? fromId : toId} was not found on arXiv`);
+      }
+
+      const result: Record<string, unknown> = {
+        paper_id: this.stripVersion(args.paper_id),
+        from: { arxiv_id: fromId, updated: fromPaper.updated, comment: fromPaper.comment },
+        to: { arxiv_id: toId, updated: toPaper.updated, comment: toPaper.comment },
+        title_diff: this.renderInlineDiff(fromPaper.title, toPaper.title),
+        abstract_diff: this.renderInlineDiff(fromPaper.summary, toPaper.summary),
+      };
+
+      if (args.include_full_text !== false) {
+        const [fromText, toText] = await Promise.all(
+          [fromId, toId].map(async (paperId) => {
+            const pdfPath = await this.downloadPdf(this.getPdfUrl(paperId), paperId);
+            return this.splitSentences(this.cleanExtractedText(await this.extractTextFromPdf(pdfPath)));
+          })
+        );
+        const hunks = this.diffSequences(fromText, toText);
+
+        result.text_diff = {
+          sentences_removed: hunks.reduce((total, hunk) => total + hunk.removed.length, 0),
+          sentences_added: hunks.reduce((total, hunk) => total + hunk.added.length, 0),
+          unchanged_sentences: fromText.length - hunks.reduce((total, hunk) => total + hunk.removed.length, 0),
+          changes: hunks,
+        };
+      }
+
+      return this.structuredResult(result);
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      console.error('Error in diffPaperVersions:', error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error comparing paper versions: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Finds the references section of a paper and splits it into individual citations
+   * Entries start at a bracketed label ([1], [Smi20]), at the next number of a numbered list,
+   * or, for author-year styles, at a capitalised line that follows a line ending in a full stop
+   * @param text Raw text as returned by extractTextFromPdf (line breaks intact)
+   * @returns Citations in reference list order, with the arXiv IDs and DOIs found in each
+   */
+  private extractReferences(text: string): PaperReference[] {
+    const sections = this.splitIntoSections(text, true).filter((section) => section.type === 'references');
+    if (sections.length === 0) {
+      return [];
+    }
+
+    // Some papers repeat the heading in a table of contents; the last one is the bibliography
+    const lines = sections[sections.length - 1].text.split('\n');
+    const bracketed = lines.filter((line) => /^\[[^\]]{1,20}\]/.test(line)).length >= 2;
+    const numbered = !bracketed && lines.filter((line) => /^\d{1,3}\.\s/.test(line)).length >= 2;
+
+    const entries: { label?: string; lines: string[] }[] = [];
+    let nextNumber = 1;
+
+    for (const line of lines) {
+      const current = entries[entries.length - 1];
+      let label: string | undefined;
+      let startsEntry = false;
+
+      if (bracketed) {
+        const match = line.match(/^\[([^\]]{1,20})\]\s*/);
+        if (match) {
+          startsEntry = true;
+          label = match[1];
+        }
+      } else if (numbered) {
+        const match = line.match(/^(\d{1,3})\.\s/);
+        if (match && parseInt(match[1], 10) === nextNumber) {
+          startsEntry = true;
+          label = match[1];
+          nextNumber++;
+        }
+      } else {
+        startsEntry =
+          !current ||
+          (/[.)]$/.test(current.lines[current.lines.length - 1]) &&
+            /^[A-Z\u00C0-\u024F]/.test(line) &&
+            /,| and /.test(line.slice(0, 60)));
+      }
+
+      if (startsEntry) {
+        const body = label === undefined ? line : line.replace(/^(\[[^\]]{1,20}\]|\d{1,3}\.)\s*/, '');
+        entries.push({ ...(label !== undefined && { label }), lines: [body] });
+      } else if (current) {
+        current.lines.push(line);
+      }
+    }
+
+    return entries.map((entry, i) => {
+      const citation = this.joinSectionLines(entry.lines);
+
+      const arxivIds = new Set<string>();
+      for (const pattern of CITED_ARXIV_ID_PATTERNS) {
+        for (const match of citation.matchAll(pattern)) {
+          arxivIds.add(match[1]);
+        }
+      }
+      const dois = new Set(
+        (citation.match(CITED_DOI_PATTERN) || []).map((doi) => doi.replace(/[.,;)\]]+$/, ''))
+      );
+
+      return {
+        index: i + 1,
+        ...(entry.label !== undefined && { label: entry.label }),
+        text: citation,
+        arxiv_ids: [...arxivIds],
+        dois: [...dois],
+      };
+    });
+  }
+
+  /**
+   * Gets the reference list of a paper, optionally resolving cited arXiv papers to their metadata
+   * @param args Object containing paper_id and resolve_arxiv
+   * @returns Object containing the references as JSON
+   */
+  private async getPaperReferences(args: GetPaperReferencesArgs) {
+    try {
+      const paperId = this.withVersion(args.paper_id, args.version);
+      const pdfPath = await this.downloadPdf(this.getPdfUrl(paperId), paperId);
+      const references = this.extractReferences(await this.extractTextFromPdf(pdfPath));
+
+      if (args.resolve_arxiv) {
+        const citedIds = [...new Set(references.flatMap((reference) => reference.arxiv_ids))];
+        const resolved = await this.fetchPapersByIds(citedIds, args.bypass_cache);
+        for (const reference of references) {
+          reference.arxiv_papers = resolved
+            .filter((result) => result.paper && reference.arxiv_ids.includes(result.paper_id))
+            .map((result) => result.paper as ArxivPaper);
+        }
+      }
+
+      return this.structuredResult({
+        paper_id: paperId,
+        total_references: references.length,
+        references,
+      });
+    } catch (error) {
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error extracting references: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Brings the persisted citation graph up to date with the PDF cache
+   * Only PDFs not indexed before are read. Papers stay in the graph after their PDF is evicted,
+   * so the graph keeps growing until it is rebuilt
+   * @param rebuild Discard the stored graph and re-index every cached PDF
+   * @returns The graph, plus the PDFs indexed by this call and those that could not be read
+   */
+  private async updateCitationGraph(rebuild = false) {
+    const graphPath = path.join(this.pdfCacheDir, CITATION_GRAPH_FILE);
+    let graph: CitationGraph = { papers: {} };
+    if (!rebuild && (await fs.pathExists(graphPath))) {
+      try {
+        graph = await fs.readJson(graphPath);
+      } catch (error) {
+        // A corrupt graph is rebuilt from the cached PDFs
+        console.error('Error reading citation graph:', error);
+      }
     }
 
-    // Add pagination
-    if (args.start !== undefined) {
-      searchParams.start = args.start;
+    const indexed: string[] = [];
+    const failed: string[] = [];
+
+    for (const pdf of await this.getCachedPdfs()) {
+      const paperId = this.stripVersion(pdf.paper_id);
+      const node = graph.papers[paperId];
+      if (node?.sources.includes(pdf.paper_id)) {
+        continue;
+      }
+
+      try {
+        const references = this.extractReferences(await this.extractTextFromPdf(pdf.path));
+        const cites = references
+          .flatMap((reference) => reference.arxiv_ids.map((id) => this.stripVersion(id)))
+          .filter((id) => id !== paperId);
+        const dois = references.flatMap((reference) => reference.dois);
+
+        // Versions of a paper share one node, citing everything any of them cites
+        graph.papers[paperId] = {
+          cites: [...new Set([...(node?.cites || []), ...cites])],
+          dois: [...new Set([...(node?.dois || []), ...dois])],
+          sources: [...(node?.sources || []), pdf.paper_id],
+          indexed_at: new Date().toISOString(),
+        };
+        indexed.push(pdf.paper_id);
+      } catch (error) {
+        console.error(`Error indexing references of ${pdf.paper_id}:`, error);
+        failed.push(pdf.paper_id);
+      }
+    }
+
+    if (rebuild || indexed.length > 0) {
+      await fs.outputJson(graphPath, graph, { spaces: 2 });
+    }
+
+    return { graph, indexed, failed };
+  }
+
+  /**
+   * Answers who cites a paper, what a paper cites, or which papers are cited most,
+   * using the citation graph of the locally cached papers
+   * @param args Object containing the query, paper_id and an optional set of citing papers
+   * @returns Object containing the answer as JSON
+   */
+  private async queryCitationGraph(args: QueryCitationGraphArgs) {
+    const { graph, indexed, failed } = await this.updateCitationGraph(args.rebuild);
+
+    const collection = args.paper_ids
+      ? args.paper_ids.map((id) => this.stripVersion(id.trim())).filter((id) => graph.papers[id])
+      : Object.keys(graph.papers);
+    const graphInfo = {
+      indexed_papers: Object.keys(graph.papers).length,
+      newly_indexed: indexed,
+      ...(failed.length > 0 && { failed }),
+    };
+
+    let answer: Record<string, unknown>;
+    if (args.query === 'references') {
+      const paperId = this.stripVersion((args.paper_id as string).trim());
+      const node = graph.papers[paperId];
+      if (!node) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Paper ${paperId} is not in the citation graph. Fetch its PDF with get_paper_content first`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      answer = {
+        paper_id: paperId,
+        cites: node.cites.map((id) => ({ paper_id: id, cached: id in graph.papers })),
+        dois: node.dois,
+      };
+    } else if (args.query === 'cited_by') {
+      const paperId = this.stripVersion((args.paper_id as string).trim());
+      const citing = collection.filter((id) => graph.papers[id].cites.includes(paperId));
+      answer = { paper_id: paperId, cited_by: citing, count: citing.length };
+    } else {
+      const counts = new Map<string, number>();
+      for (const id of collection) {
+        for (const cited of graph.papers[id].cites) {
+          counts.set(cited, (counts.get(cited) || 0) + 1);
+        }
+      }
+
+      answer = {
+        papers_considered: collection.length,
+        most_cited: [...counts.entries()]
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, args.limit || 10)
+          .map(([id, count]) => ({ paper_id: id, cited_by_count: count, cached: id in graph.papers })),
+      };
     }
 
-    if (args.max_results !== undefined) {
-      searchParams.max_results = Math.min(args.max_results, 2000); // API limit
-    } else {
-      searchParams.max_results = 10; // Default
+    return this.structuredResult({ ...answer, graph: graphInfo });
+  }
+
+  /**
+   * Splits an author name into family and given names
+   * Handles "Family, Given" input, lowercase particles and suffixes such as Jr.
+   * @param name Author name as given by arXiv
+   * @returns Name parts
+   */
+  private splitAuthorName(name: string): AuthorName {
+    const trimmed = name.trim().replace(/\s+/g, ' ');
+    if (trimmed.includes(',')) {
+      const [family, ...rest] = trimmed.split(',').map((part) => part.trim());
+      return { family, given: rest.join(' ') };
     }
 
-    // Add sorting
-    if (args.sort_by) {
-      searchParams.sortBy = args.sort_by;
+    const parts = trimmed.split(' ');
+    const suffix = parts.length > 2 && NAME_SUFFIX_PATTERN.test(parts[parts.length - 1]) ? parts.pop() : undefined;
+    if (parts.length === 1) {
+      return { family: parts[0], given: '', ...(suffix && { suffix }) };
     }
 
-    if (args.sort_order) {
-      searchParams.sortOrder = args.sort_order;
+    let familyStart = parts.length - 1;
+    while (familyStart > 1 && NAME_PARTICLES.has(parts[familyStart - 1])) {
+      familyStart--;
     }
 
-    const response = await this.queryArxiv(searchParams);
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
+      family: parts.slice(familyStart).join(' '),
+      given: parts.slice(0, familyStart).join(' '),
+      ...(suffix && { suffix }),
     };
   }
 
-  private async getPaper(args: GetPaperArgs) {
-    const searchParams: SearchParams = {
-      id_list: args.paper_id,
-    };
+  /**
+   * Builds a citation key from the first author, submission year, first significant title word and arXiv ID
+   * The key depends only on the paper, so it is the same whichever papers it is exported with
+   * (e.g., vaswani2017attention-1706.03762). The ID keeps papers that share the rest apart
+   * @param paper Paper to cite
+   * @returns Citation key
+   */
+  private getCitationKey(paper: ArxivPaper): string {
+    const toAscii = (text: string) =>
+      text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ł/g, 'l').replace(/Ł/g, 'L').toLowerCase();
 
-    const response = await this.queryArxiv(searchParams);
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
-    };
+    const family = paper.authors.length > 0 ? this.splitAuthorName(paper.authors[0]).family : '';
+    const surname = toAscii(family.split(' ').pop() || '').replace(/[^a-z0-9]/g, '') || 'anonymous';
+    const year = paper.published.slice(0, 4);
+    const titleWord =
+      toAscii(paper.title)
+        .replace(/\\[a-z]+/g, ' ')
+        .split(/[^a-z0-9]+/)
+        .find((word) => word && !CITATION_KEY_STOP_WORDS.has(word)) || '';
+
+    return `${surname}${year}${titleWord}-${this.stripVersion(paper.arxiv_id).replace(/\//g, '-')}`;
   }
 
-  private async searchByCategory(args: SearchByCategoryArgs) {
-    const searchParams: SearchParams = {
-      search_query: `cat:${args.category}`,
-    };
+  /**
+   * Formats one paper as a BibTeX entry
+   * Published papers become @article with their journal reference, preprints become @misc
+   */
+  private formatBibtexEntry(paper: ArxivPaper, key: string): string {
+    // Titles and abstracts from arXiv are already LaTeX, so only escape characters that break BibTeX
+    const escape = (text: string) => text.replace(/(?<!\\)([&%#])/g, '\\$1');
+    const formatName = (name: AuthorName) =>
+      [name.family, name.suffix, name.given].filter(Boolean).join(', ');
 
-    // Add pagination
-    if (args.start !== undefined) {
-      searchParams.start = args.start;
-    }
+    const eprint = this.stripVersion(paper.arxiv_id);
+    const fields: [string, string | null][] = [
+      ['title', `{${escape(paper.title)}}`],
+      ['author', paper.authors.map((author) => formatName(this.splitAuthorName(author))).join(' and ')],
+      ['journal', paper.journal_ref && escape(paper.journal_ref)],
+      ['year', paper.published.slice(0, 4)],
+      ['eprint', eprint],
+      ['archivePrefix', 'arXiv'],
+      ['primaryClass', paper.primary_category || paper.categories[0] || null],
+      ['doi', paper.doi],
+      ['url', `https://arxiv.org/abs/${eprint}`],
+    ];
 
-    if (args.max_results !== undefined) {
-      searchParams.max_results = Math.min(args.max_results, 2000); // API limit
-    } else {
-      searchParams.max_results = 10; // Default
-    }
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([name, value]) => `  ${name} = {${value}},`)
+      .join('\n');
+    return `@${paper.journal_ref ? 'article' : 'misc'}{${key},\n${body}\n}`;
+  }
 
-    // Add sorting
-    if (args.sort_by) {
-      searchParams.sortBy = args.sort_by;
-    }
+  /**
+   * Formats one paper as an RIS record
+   */
+  private formatRisEntry(paper: ArxivPaper, key: string): string {
+    const eprint = this.stripVersion(paper.arxiv_id);
+    const lines: [string, string | null][] = [
+      ['TY', paper.journal_ref ? 'JOUR' : 'UNPB'],
+      ['ID', key],
+      ['TI', paper.title],
+      ...paper.authors.map((author): [string, string] => {
+        const name = this.splitAuthorName(author);
+        return ['AU', [name.family, name.given, name.suffix].filter(Boolean).join(', ')];
+      }),
+      ['PY', paper.published.slice(0, 4)],
+      ['DA', paper.published.slice(0, 10).replace(/-/g, '/')],
+      ['T2', paper.journal_ref],
+      ['PB', paper.journal_ref ? null : 'arXiv'],
+      ['AB', paper.summary],
+      ...paper.categories.map((category): [string, string] => ['KW', category]),
+      ['DO', paper.doi],
+      ['UR', `https://arxiv.org/abs/${eprint}`],
+      ['N1', paper.comment],
+      ['ER', ''],
+    ];
 
-    if (args.sort_order) {
-      searchParams.sortOrder = args.sort_order;
-    }
+    return lines
+      .filter(([tag, value]) => value || tag === 'ER')
+      .map(([tag, value]) => `${tag}  - ${value}`)
+      .join('\n');
+  }
+
+  /**
+   * Converts one paper to a CSL-JSON item
+   */
+  private toCslJsonItem(paper: ArxivPaper, key: string) {
+    const eprint = this.stripVersion(paper.arxiv_id);
+    const [year, month, day] = paper.published.slice(0, 10).split('-').map(Number);
 
-    const response = await this.queryArxiv(searchParams);
     return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(response, null, 2),
-        },
-      ],
+      id: key,
+      type: paper.journal_ref ? 'article-journal' : 'article',
+      title: paper.title,
+      author: paper.authors.map((author) => this.splitAuthorName(author)),
+      issued: { 'date-parts': [[year, month, day]] },
+      abstract: paper.summary,
+      ...(paper.journal_ref ? { 'container-title': paper.journal_ref } : { publisher: 'arXiv', number: `arXiv:${eprint}` }),
+      ...(paper.doi && { DOI: paper.doi }),
+      URL: `https://arxiv.org/abs/${eprint}`,
     };
   }
 
-  private async queryArxiv(params: SearchParams) {
-    try {
-      // Build URL manually to have more control over encoding
-      const url = new URL(ARXIV_API_BASE_URL);
+  /**
+   * Exports citations for papers given by ID or found by a search
+   * @param args Object containing paper_ids or search, and the format
+   * @returns Object containing the citations, plus a note on IDs that could not be exported
+   */
+  private async exportCitations(args: ExportCitationsArgs) {
+    const format = args.format || 'bibtex';
+    const papers: ArxivPaper[] = [];
+    const failures: string[] = [];
 
-      if (params.search_query) {
-        // Don't double-encode the search query - it's already formatted
-        url.searchParams.set('search_query', params.search_query);
-      }
-      if (params.id_list) {
-        url.searchParams.set('id_list', params.id_list);
-      }
-      if (params.start !== undefined) {
-        url.searchParams.set('start', String(params.start));
-      }
-      if (params.max_results !== undefined) {
-        url.searchParams.set('max_results', String(params.max_results));
-      }
-      if (params.sortBy) {
-        url.searchParams.set('sortBy', params.sortBy);
+    if (args.paper_ids) {
+      for (const result of await this.fetchPapersByIds(args.paper_ids, args.bypass_cache)) {
+        if (result.paper) {
+          papers.push(result.paper);
+        } else {
+          failures.push(`${result.paper_id}: ${result.error}`);
+        }
       }
-      if (params.sortOrder) {
-        url.searchParams.set('sortOrder', params.sortOrder);
+    } else if (args.search) {
+      const response = await this.queryArxiv(this.buildSearchParams(args.search), args.bypass_cache);
+      if ('error' in response) {
+        return {
+          content: [{ type: 'text', text: `Error searching arXiv: ${response.error}` }],
+          isError: true,
+        };
       }
+      papers.push(...response.papers);
+    }
 
-      const response = await axios.get(url.toString());
+    // Keys leave out the version, so two versions of one paper would share a key: only the first is exported
+    const unique = papers.filter(
+      (paper, index) =>
+        papers.findIndex((other) => this.stripVersion(other.arxiv_id) === this.stripVersion(paper.arxiv_id)) === index
+    );
+    if (unique.length === 0) {
+      return {
+        content: [{ type: 'text', text: ['No papers to export', ...failures].join('\n') }],
+        isError: true,
+      };
+    }
 
-      // Parse the XML response
-      const xmlData = response.data;
+    const keys = unique.map((paper) => this.getCitationKey(paper));
 
-      // Extract and process the data
-      return this.processArxivResponse(xmlData);
-    } catch (error) {
-      console.error('Error querying arXiv API:', error);
-      throw error;
+    let text: string;
+    if (format === 'csl-json') {
+      text = JSON.stringify(unique.map((paper, index) => this.toCslJsonItem(paper, keys[index])), null, 2);
+    } else if (format === 'ris') {
+      text = unique.map((paper, index) => this.formatRisEntry(paper, keys[index])).join('\n\n');
+    } else {
+      text = unique.map((paper, index) => this.formatBibtexEntry(paper, keys[index])).join('\n\n');
+    }
+
+    const content = [{ type: 'text', text }];
+    if (failures.length > 0) {
+      content.push({ type: 'text', text: ['Not exported:', ...failures].join('\n') });
     }
+    return {
+      content,
+      structuredContent: { format, count: unique.length, keys, citations: text, not_exported: failures },
+    };
   }
 
-  private processArxivResponse(xmlData: string) {
-    try {
-      // Basic XML parsing to extract paper information
-      const papers: any[] = [];
-
-      // Extract feed information
-      const titleMatch = xmlData.match(/<title[^>]*>(.*?)<\/title>/);
-      const totalResultsMatch = xmlData.match(/<opensearch:totalResults[^>]*>(\d+)<\/opensearch:totalResults>/);
-      const startIndexMatch = xmlData.match(/<opensearch:startIndex[^>]*>(\d+)<\/opensearch:startIndex>/);
-      const itemsPerPageMatch = xmlData.match(/<opensearch:itemsPerPage[^>]*>(\d+)<\/opensearch:itemsPerPage>/);
-
-      // Extract entry elements - use DOTALL flag for multiline matching
-      const entryRegex = /<entry>([\s\S]*?)<\/entry>/g;
-      let entryMatch;
-
-      while ((entryMatch = entryRegex.exec(xmlData)) !== null) {
-        const entry = entryMatch[1];
-
-        // Extract paper details - use [\s\S] for multiline content
-        const idMatch = entry.match(/<id[^>]*>([\s\S]*?)<\/id>/);
-        const entryTitleMatch = entry.match(/<title[^>]*>([\s\S]*?)<\/title>/);
-        const summaryMatch = entry.match(/<summary[^>]*>([\s\S]*?)<\/summary>/);
-        const publishedMatch = entry.match(/<published[^>]*>([\s\S]*?)<\/published>/);
-        const updatedMatch = entry.match(/<updated[^>]*>([\s\S]*?)<\/updated>/);
-
-        // Extract authors
-        const authors: string[] = [];
-        const authorRegex = /<author[^>]*>[\s\S]*?<name[^>]*>([\s\S]*?)<\/name>[\s\S]*?<\/author>/g;
-        let authorMatch;
-        while ((authorMatch = authorRegex.exec(entry)) !== null) {
-          authors.push(authorMatch[1].trim());
-        }
-
-        // Extract categories
-        const categories: string[] = [];
-        const categoryRegex = /<category[^>]*term="([^"]+)"/g;
-        let categoryMatch;
-        while ((categoryMatch = categoryRegex.exec(entry)) !== null) {
-          categories.push(categoryMatch[1]);
-        }
-
-        // Extract links - improved regex to handle various attribute orders
-        const links: any[] = [];
-        const linkRegex = /<link\s+([^>]*)\/>/g;
-        let linkMatch;
-        while ((linkMatch = linkRegex.exec(entry)) !== null) {
-          const attrs = linkMatch[1];
-          const hrefMatch = attrs.match(/href="([^"]+)"/);
-          const relMatch = attrs.match(/rel="([^"]+)"/);
-          const typeMatch = attrs.match(/type="([^"]+)"/);
-
-          if (hrefMatch) {
-            links.push({
-              href: hrefMatch[1],
-              rel: relMatch ? relMatch[1] : 'alternate',
-              type: typeMatch ? typeMatch[1] : 'text/html'
-            });
-          }
-        }
+  /**
+   * Checks a request's bearer token in constant time
+   */
+  private isAuthorized(req: http.IncomingMessage, authToken: string): boolean {
+    const expected = Buffer.from(`Bearer ${authToken}`);
+    const given = Buffer.from(req.headers.authorization || '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
 
-        const paper = {
-          id: idMatch ? idMatch[1].trim() : '',
-          title: entryTitleMatch ? entryTitleMatch[1].trim().replace(/\s+/g, ' ') : '',
-          summary: summaryMatch ? summaryMatch[1].trim().replace(/\s+/g, ' ') : '',
-          authors: authors,
-          published: publishedMatch ? publishedMatch[1].trim() : '',
-          updated: updatedMatch ? updatedMatch[1].trim() : '',
-          categories: categories,
-          links: links,
-          // Extract arXiv ID from the main ID
-          arxiv_id: idMatch ? idMatch[1].trim().replace('http://arxiv.org/abs/', '') : ''
-        };
+  /**
+   * Sends a JSON-RPC error that is not a reply to any particular request
+   */
+  private sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+
+  /**
+   * Reads and parses a JSON request body
+   * @throws SyntaxError when the body is not JSON; Error when it is too large
+   */
+  private async readRequestBody(req: http.IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_HTTP_BODY_BYTES) {
+        throw new Error(`Request body is larger than ${MAX_HTTP_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  }
 
-        papers.push(paper);
+  /**
+   * Registers an HTTP session, closing the least recently used ones to stay within the session limit
+   */
+  private addHttpSession(sessionId: string, session: HttpSession) {
+    for (const [oldestId, oldest] of this.httpSessions) {
+      if (this.httpSessions.size < this.maxHttpSessions) {
+        break;
       }
+      this.httpSessions.delete(oldestId);
+      void oldest.server.close().catch(() => undefined);
+    }
+    this.httpSessions.set(sessionId, session);
+  }
 
-      return {
-        feed_title: titleMatch ? titleMatch[1].trim() : '',
-        total_results: totalResultsMatch ? parseInt(totalResultsMatch[1]) : 0,
-        start_index: startIndexMatch ? parseInt(startIndexMatch[1]) : 0,
-        items_per_page: itemsPerPageMatch ? parseInt(itemsPerPageMatch[1]) : 0,
-        papers: papers
-      };
-    } catch (error) {
-      console.error('Error parsing arXiv XML response:', error);
-      return {
-        error: 'Failed to parse arXiv response',
-        raw_response: xmlData.substring(0, 1000) + '...' // Truncated for safety
-      };
+  /**
+   * Looks up an HTTP session and marks it as the most recently used
+   */
+  private useHttpSession(sessionId: string): HttpSession | undefined {
+    const session = this.httpSessions.get(sessionId);
+    if (session) {
+      this.httpSessions.delete(sessionId);
+      this.httpSessions.set(sessionId, session);
     }
+    return session;
   }
 
   /**
-   * Downloads a PDF file from a URL and saves it to the temporary directory
-   * @param url URL of the PDF to download
-   * @param paperId arXiv paper ID (used for filename)
-   * @returns Path to the downloaded PDF file
+   * Handles a request to the Streamable HTTP endpoint
+   * An initialize request without a session ID starts a session; every other request must carry one
    */
-  private async downloadPdf(url: string, paperId: string): Promise<string> {
-    try {
-      // Ensure temp directory exists
-      await fs.ensureDir(TEMP_PDF_DIR);
+  private async handleStreamableHttpRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await this.readRequestBody(req) : undefined;
 
-      // Create a unique filename based on the paper ID
-      const sanitizedPaperId = paperId.replace(/\//g, '_');
-      const pdfPath = path.join(TEMP_PDF_DIR, `${sanitizedPaperId}.pdf`);
+    if (typeof sessionId === 'string') {
+      const session = this.useHttpSession(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
 
-      // Check if we already have this PDF cached
-      if (await fs.pathExists(pdfPath)) {
-        console.error(`Using cached PDF for ${paperId}`);
-        return pdfPath;
+    if (!isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: no session ID. Start a session with an initialize request');
+      return;
+    }
+
+    const server = this.createServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.addHttpSession(id, { transport, server });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.httpSessions.delete(transport.sessionId);
       }
+    };
 
-      console.error(`Downloading PDF for ${paperId} from ${url}`);
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
 
-      // Download the PDF with proper headers
-      // Note: Using responseType 'arraybuffer' to handle binary data
-      const response = await axios.get(url, {
-        responseType: 'arraybuffer',
-        headers: {
-          'User-Agent': 'arXiv-MCP-Server/0.2.0 (https://github.com/Mnehmos/arxiv-mcp-server)',
-        },
-        // Add a timeout to prevent hanging on large files
-        timeout: 60000,
-      });
+  /**
+   * Opens a legacy SSE stream. The client posts its messages to /messages with the session ID it is sent
+   */
+  private async handleSseConnection(res: http.ServerResponse) {
+    const server = this.createServer();
+    const transport = new SSEServerTransport('/messages', res);
+    this.addHttpSession(transport.sessionId, { transport, server });
+    res.on('close', () => {
+      this.httpSessions.delete(transport.sessionId);
+    });
 
-      // Save the PDF to disk
-      await fs.outputFile(pdfPath, response.data);
+    await server.connect(transport);
+  }
 
-      return pdfPath;
-    } catch (error) {
-      console.error('Error downloading PDF:', error);
-      throw new Error(`Failed to download PDF: ${error instanceof Error ? error.message : String(error)}`);
+  /**
+   * Lists the Host header values the HTTP transport answers to, or null for any when it listens on every interface
+   * @param host Address the server listens on
+   * @param port Port the server listens on
+   */
+  private getAllowedHttpHosts(host: string, port: number): string[] | null {
+    if (WILDCARD_HOSTS.includes(host)) {
+      return null;
     }
+    const bracketed = host.includes(':') ? `[${host}]` : host.toLowerCase();
+    const names = LOOPBACK_HOSTS.includes(bracketed) ? LOOPBACK_HOSTS : [bracketed];
+    // Clients leave the default port out of the Host header
+    return port === 80 ? [...names, ...names.map((name) => `${name}:${port}`)] : names.map((name) => `${name}:${port}`);
   }
 
   /**
-   * Extracts text content from a PDF file
-   * Uses pdf-parse/lib/pdf-parse.js directly to avoid test file loading issue
-   * @param pdfPath Path to the PDF file
-   * @returns Extracted text content
+   * Checks the Host and Origin headers, so a web page cannot reach the server through DNS rebinding
+   * Requests without an Origin come from clients other than browsers and are allowed
+   * @param allowedHosts Host header values to accept, or null for any
+   * @param port Port the server listens on, for the loopback origins accepted when any host is
    */
-  private async extractTextFromPdf(pdfPath: string): Promise<string> {
-    try {
-      // Read the PDF file
-      const dataBuffer = await fs.readFile(pdfPath);
+  private isAllowedHttpOrigin(req: http.IncomingMessage, allowedHosts: string[] | null, port: number): boolean {
+    const host = req.headers.host?.toLowerCase();
+    if (allowedHosts && (!host || !allowedHosts.includes(host))) {
+      return false;
+    }
 
-      // Use require to load the internal CommonJS module directly
-      // This bypasses index.js which has test code that runs when !module.parent (true in ESM)
-      const pdfParse = require('pdf-parse/lib/pdf-parse.js');
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      return true;
+    }
+    try {
+      const url = new URL(origin);
+      const originHosts = allowedHosts || LOOPBACK_HOSTS.map((name) => `${name}:${port}`);
+      return (url.protocol === 'http:' || url.protocol === 'https:') && originHosts.includes(url.host);
+    } catch {
+      return false;
+    }
+  }
 
-      // Parse the PDF
-      const data = await pdfParse(dataBuffer);
+  /**
+   * Handles an HTTP request: checks the Host and Origin headers and the bearer token, then routes to the Streamable HTTP or legacy SSE endpoints
+   */
+  private async handleHttpRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    authToken: string | null,
+    allowedHosts: string[] | null,
+    port: number
+  ) {
+    if (!this.isAllowedHttpOrigin(req, allowedHosts, port)) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Host or Origin not allowed' }));
+      return;
+    }
+    if (authToken && !this.isAuthorized(req, authToken)) {
+      res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+      res.end(JSON.stringify({ error: 'Missing or invalid bearer token' }));
+      return;
+    }
 
-      // Return the text content
-      return data.text;
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (url.pathname === '/mcp') {
+        await this.handleStreamableHttpRequest(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await this.handleSseConnection(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        const session = this.useHttpSession(url.searchParams.get('sessionId') || '');
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+          this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        await session.transport.handlePostMessage(req, res);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found. Use /mcp for Streamable HTTP or /sse for legacy SSE' }));
+      }
     } catch (error) {
-      console.error('Error extracting text from PDF:', error);
-      throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : String(error)}`);
+      console.error('Error handling HTTP request:', error);
+      if (!res.headersSent) {
+        if (error instanceof SyntaxError) {
+          this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+        } else {
+          this.sendJsonRpcError(res, 500, -32603, error instanceof Error ? error.message : String(error));
+        }
+      }
     }
   }
 
   /**
-   * Gets the full text content of a paper by downloading and extracting text from its PDF
-   * @param args Object containing paper_id
-   * @returns Object containing the extracted text content
+   * Starts the HTTP transport: Streamable HTTP at /mcp and legacy SSE at /sse with messages posted to /messages
+   * @param options Host, port and optional bearer token
+   * @returns The listening HTTP server
    */
-  private async getPaperContent(args: GetPaperContentArgs) {
-    try {
-      // Construct the PDF URL directly
-      // arXiv PDF URLs follow the pattern: https://arxiv.org/pdf/{paper_id}.pdf
-      const pdfUrl = `https://arxiv.org/pdf/${args.paper_id}.pdf`;
+  private async startHttpServer(options: TransportOptions): Promise<http.Server> {
+    // Set once listening, before any request can arrive: with port 0 the port is only known then
+    let port = options.port;
+    let allowedHosts: string[] | null = null;
+    const httpServer = http.createServer((req, res) => {
+      void this.handleHttpRequest(req, res, options.authToken, allowedHosts, port);
+    });
 
-      // Download the PDF
-      const pdfPath = await this.downloadPdf(pdfUrl, args.paper_id);
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(options.port, options.host, () => resolve());
+    });
+    port = (httpServer.address() as AddressInfo).port;
+    allowedHosts = this.getAllowedHttpHosts(options.host, port);
 
-      // Extract text from the PDF
-      const textContent = await this.extractTextFromPdf(pdfPath);
+    this.httpServer = httpServer;
+    return httpServer;
+  }
 
-      // Clean up the text (remove excessive whitespace, normalize line breaks)
-      const cleanedText = textContent
-        .replace(/\s+/g, ' ')
-        .replace(/(\r\n|\n|\r)/gm, '\n')
-        .trim();
+  /**
+   * Closes every HTTP session and stops the HTTP transport, if running
+   */
+  private async stopHttpServer() {
+    const httpServer = this.httpServer;
+    if (!httpServer) {
+      return;
+    }
+    this.httpServer = null;
 
-      // Return the extracted text
-      return {
-        content: [
-          {
-            type: 'text',
-            text: cleanedText,
-          },
-        ],
-      };
-    } catch (error) {
-      console.error('Error in getPaperContent:', error);
+    const sessions = [...this.httpSessions.values()];
+    this.httpSessions.clear();
+    await Promise.all(sessions.map((session) => session.server.close().catch(() => undefined)));
 
-      if (axios.isAxiosError(error)) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error retrieving paper content: ${error.response?.data || error.message}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+    httpServer.closeAllConnections();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error processing paper content: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      };
+  async run(options: TransportOptions = CONFIG.server) {
+    if (options.transport === 'http') {
+      const httpServer = await this.startHttpServer(options);
+      const { port } = httpServer.address() as AddressInfo;
+      console.error(
+        `arXiv MCP server listening on http://${options.host}:${port} (Streamable HTTP at /mcp, legacy SSE at /sse)` +
+          (options.authToken ? ', bearer token required' : '')
+      );
+      return;
     }
-  }
 
-  async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('arXiv MCP server running on stdio');
@@ -0,0 +1,88 @@
+/**
+ * Tests for parsing arXiv Atom responses
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+import { MOCK_ARXIV_RESPONSE_PATH } from './setup.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('arXiv Atom parser', () => {
+  let server: ArxivServer;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+  });
+
+  it('should parse arXiv namespaced metadata', async () => {
+    const result = server._testMethods.processArxivResponse(await fs.readFile(MOCK_METADATA_PATH, 'utf-8'));
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.total_results).toBe(2);
+    expect(result.items_per_page).toBe(10);
+
+    const paper = result.papers[0];
+    expect(paper).toEqual(
+      expect.objectContaining({
+        arxiv_id: '1706.03762v7',
+        title: 'Attention Is All You Need',
+        doi: '10.48550/arXiv.1706.03762',
+        journal_ref: 'Advances in Neural Information Processing Systems 30 (2017)',
+        comment: '15 pages, 5 figures',
+        primary_category: 'cs.CL',
+        categories: ['cs.CL', 'cs.LG'],
+        authors: ['Ashish Vaswani', 'Aidan N. Gomez'],
+      })
+    );
+    expect(paper.author_details[1]).toEqual({
+      name: 'Aidan N. Gomez',
+      affiliations: ['University of Toronto', 'Google Brain'],
+    });
+    expect(paper.links).toContainEqual({
+      href: 'http://arxiv.org/pdf/1706.03762v7',
+      rel: 'related',
+      type: 'application/pdf',
+      title: 'pdf',
+    });
+  });
+
+  it('should decode XML entities and normalize whitespace', async () => {
+    const result = server._testMethods.processArxivResponse(await fs.readFile(MOCK_METADATA_PATH, 'utf-8'));
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.feed_title).toBe('ArXiv Query: search_query=&id_list=1706.03762&start=0&max_results=10');
+    expect(result.papers[0].summary).toBe(
+      'The dominant sequence transduction models are based on complex recurrent or convolutional neural networks & use an encoder <and> a decoder. Schrödinger.'
+    );
+    expect(result.papers[1]).toEqual(
+      expect.objectContaining({ arxiv_id: 'cs/0001001v1', doi: null, journal_ref: null, comment: null })
+    );
+  });
+
+  it('should resolve namespaces by URI and report unparseable responses', async () => {
+    const prefixed = (await fs.readFile(MOCK_ARXIV_RESPONSE_PATH, 'utf-8'))
+      .replace('xmlns="http://www.w3.org/2005/Atom"', 'xmlns:atom="http://www.w3.org/2005/Atom"')
+      .replace(/<(\/?)(feed|title|id|updated|entry|summary|author|name|published|link|category)\b/g, '<$1atom:$2');
+    const result = server._testMethods.processArxivResponse(prefixed);
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+    expect(result.papers.map((paper) => paper.title)).toEqual([
+      'Advanced Machine Learning Techniques',
+      'Deep Learning for Computer Vision',
+      'Reinforcement Learning Advances',
+    ]);
+
+    expect(server._testMethods.processArxivResponse('<html>Service Unavailable</html>')).toEqual(
+      expect.objectContaining({ error: 'Failed to parse arXiv response' })
+    );
+  });
+});
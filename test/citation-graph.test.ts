@@ -0,0 +1,90 @@
+/**
+ * Tests for the citation graph over cached papers and the query_citation_graph tool
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ArxivServer } from '../src/index.js';
+
+// Extracted text of each fake cached PDF, keyed by file name
+const PAPER_TEXTS: Record<string, string> = {
+  '2501.00001.pdf': 'Body.\nReferences\n[1] Vaswani et al. arXiv:1706.03762.\n[2] Devlin et al. arXiv:1810.04805v2.',
+  '2501.00002v2.pdf': 'Body.\nReferences\n[1] Vaswani et al. arXiv:1706.03762.\n[2] Our earlier work. arXiv:2501.00001.',
+  'cs_0001001.pdf': 'Body.\nReferences\n[1] Turing. doi:10.1093/mind/LIX.236.433.',
+};
+
+describe('citation graph', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    mockedServer = server as any;
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-graph-'));
+    mockedServer.pdfCacheDir = cacheDir;
+
+    for (const file of Object.keys(PAPER_TEXTS)) {
+      await fs.outputFile(path.join(cacheDir, file), 'pdf');
+    }
+    mockedServer.extractTextFromPdf = jest.fn((pdfPath: string) =>
+      Promise.resolve(PAPER_TEXTS[path.basename(pdfPath)])
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it('should index cached PDFs once and persist the graph', async () => {
+    const first = await server._testMethods.updateCitationGraph();
+    expect(first.indexed.sort()).toEqual(['2501.00001', '2501.00002v2', 'cs/0001001']);
+    expect(first.graph.papers['2501.00001'].cites).toEqual(['1706.03762', '1810.04805']);
+    expect(first.graph.papers['cs/0001001'].dois).toEqual(['10.1093/mind/LIX.236.433']);
+
+    const stored = await fs.readJson(path.join(cacheDir, 'citation-graph.json'));
+    expect(Object.keys(stored.papers).sort()).toEqual(['2501.00001', '2501.00002', 'cs/0001001']);
+
+    const second = await server._testMethods.updateCitationGraph();
+    expect(second.indexed).toEqual([]);
+    expect(mockedServer.extractTextFromPdf).toHaveBeenCalledTimes(3);
+  });
+
+  it('should answer who cites a paper and what it cites', async () => {
+    const citedBy = JSON.parse(
+      (await server._testMethods.queryCitationGraph({ query: 'cited_by', paper_id: '1706.03762v7' })).content[0].text
+    );
+    expect(citedBy.cited_by.sort()).toEqual(['2501.00001', '2501.00002']);
+    expect(citedBy.count).toBe(2);
+
+    const references = JSON.parse(
+      (await server._testMethods.queryCitationGraph({ query: 'references', paper_id: '2501.00002' })).content[0].text
+    );
+    expect(references.cites).toEqual([
+      { paper_id: '1706.03762', cached: false },
+      { paper_id: '2501.00001', cached: true },
+    ]);
+    expect(references.graph.indexed_papers).toBe(3);
+  });
+
+  it('should rank the most cited papers within a collection', async () => {
+    const all = JSON.parse((await server._testMethods.queryCitationGraph({ query: 'most_cited' })).content[0].text);
+    expect(all.most_cited[0]).toEqual({ paper_id: '1706.03762', cited_by_count: 2, cached: false });
+
+    const subset = JSON.parse(
+      (await server._testMethods.queryCitationGraph({ query: 'most_cited', paper_ids: ['2501.00001'], limit: 1 }))
+        .content[0].text
+    );
+    expect(subset.papers_considered).toBe(1);
+    expect(subset.most_cited).toEqual([{ paper_id: '1706.03762', cited_by_count: 1, cached: false }]);
+  });
+
+  it('should report papers missing from the graph', async () => {
+    const result = await server._testMethods.queryCitationGraph({ query: 'references', paper_id: '2301.99999' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('not in the citation graph');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for the configuration layer
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_CONFIG, getUserAgent, loadConfig } from '../src/config.js';
+import { ArxivServer } from '../src/index.js';
+
+describe('configuration', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-config-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should default to the public arXiv endpoints over https and stdio', () => {
+    const config = loadConfig({ env: {}, argv: [] });
+
+    expect(config).toEqual(DEFAULT_CONFIG);
+    expect(config.endpoints.apiBaseUrl).toBe('https://export.arxiv.org/api/query');
+    expect(config.server).toEqual({ transport: 'stdio', host: '127.0.0.1', port: 3000, authToken: null });
+    expect(getUserAgent(config)).toBe(DEFAULT_CONFIG.requests.userAgent);
+  });
+
+  it('should layer a JSON config file, then the environment, then command line flags', async () => {
+    const configPath = path.join(workDir, 'arxiv.json');
+    await fs.writeJson(configPath, {
+      endpoints: { apiBaseUrl: 'http://mirror.internal/api/query/', pdfBaseUrl: 'http://mirror.internal/pdf' },
+      requests: { intervalMs: 500, contactEmail: 'team@example.org' },
+      cache: { pdfDir: 'cache/pdfs' },
+      server: { transport: 'http', port: 4000 },
+    });
+
+    const config = loadConfig({
+      env: { ARXIV_CONFIG_FILE: configPath, ARXIV_REQUEST_INTERVAL_MS: '250', ARXIV_MCP_PORT: '5000' },
+      argv: ['--port=6000', '--host', '0.0.0.0', 'positional'],
+    });
+
+    expect(config.endpoints.apiBaseUrl).toBe('http://mirror.internal/api/query');
+    expect(config.endpoints.pdfBaseUrl).toBe('http://mirror.internal/pdf');
+    expect(config.endpoints.eprintBaseUrl).toBe('https://arxiv.org/e-print');
+    expect(config.requests.intervalMs).toBe(250);
+    // Relative paths in the file are relative to the file
+    expect(config.cache.pdfDir).toBe(path.join(workDir, 'cache', 'pdfs'));
+    expect(config.server).toEqual({ transport: 'http', host: '0.0.0.0', port: 6000, authToken: null });
+    expect(getUserAgent(config)).toBe(`${DEFAULT_CONFIG.requests.userAgent} (mailto:team@example.org)`);
+  });
+
+  it('should read YAML config files named by --config', async () => {
+    const configPath = path.join(workDir, 'arxiv.yaml');
+    await fs.writeFile(
+      configPath,
+      ['search:', '  defaultMaxResults: 25', 'requests:', '  downloadTimeoutMs: 120000', '  userAgent: team-arxiv/1.0'].join('\n')
+    );
+
+    const config = loadConfig({ env: {}, argv: ['--config', configPath] });
+
+    expect(config.search.defaultMaxResults).toBe(25);
+    expect(config.requests.downloadTimeoutMs).toBe(120000);
+    expect(getUserAgent(config)).toBe('team-arxiv/1.0');
+  });
+
+  it('should reject unknown settings and malformed values', async () => {
+    const configPath = path.join(workDir, 'arxiv.json');
+    await fs.writeJson(configPath, { cache: { pdfDirectory: '/tmp' } });
+
+    expect(() => loadConfig({ env: { ARXIV_CONFIG_FILE: configPath }, argv: [] })).toThrow(/Unknown setting "cache.pdfDirectory"/);
+    expect(() => loadConfig({ env: { ARXIV_MAX_RETRIES: 'three' }, argv: [] })).toThrow(/ARXIV_MAX_RETRIES/);
+    expect(() => loadConfig({ env: { ARXIV_API_BASE_URL: 'export.arxiv.org/api' }, argv: [] })).toThrow(/apiBaseUrl/);
+    expect(() => loadConfig({ env: {}, argv: ['--transport', 'websocket'] })).toThrow(/Unknown transport/);
+    expect(() => loadConfig({ env: {}, argv: ['--port', '70000'] })).toThrow(/Invalid port/);
+  });
+
+  it('should send the User-Agent and timeouts with every arXiv request', async () => {
+    const server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    (server as any).userAgent = 'team-arxiv/1.0 (mailto:team@example.org)';
+    (server as any).endpoints = { ...DEFAULT_CONFIG.endpoints, eprintBaseUrl: 'http://localhost:9000/e-print' };
+    const mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: '', status: 200 } as never);
+
+    await server._testMethods.arxivGet('https://export.arxiv.org/api/query');
+    expect(mockedAxios.get.mock.calls[0][1]).toEqual({
+      timeout: DEFAULT_CONFIG.requests.apiTimeoutMs,
+      headers: { 'User-Agent': 'team-arxiv/1.0 (mailto:team@example.org)' },
+    });
+
+    await server._testMethods.arxivGet('https://arxiv.org/pdf/2501.12345.pdf', { timeout: 5, responseType: 'arraybuffer' });
+    expect(mockedAxios.get.mock.calls[1][1]).toEqual(
+      expect.objectContaining({ timeout: 5, headers: { 'User-Agent': 'team-arxiv/1.0 (mailto:team@example.org)' } })
+    );
+
+    expect((server as any).getEprintUrl('2501.12345')).toBe('http://localhost:9000/e-print/2501.12345');
+  });
+});
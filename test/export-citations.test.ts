@@ -0,0 +1,126 @@
+/**
+ * Tests for the export_citations tool
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('export_citations', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({
+      data: await fs.readFile(MOCK_METADATA_PATH, 'utf-8'),
+      status: 200,
+    } as never);
+  });
+
+  it('should split author names into family and given names', () => {
+    const { splitAuthorName } = server._testMethods;
+
+    expect(splitAuthorName('Aidan N. Gomez')).toEqual({ family: 'Gomez', given: 'Aidan N.' });
+    expect(splitAuthorName('Ludwig van Beethoven')).toEqual({ family: 'van Beethoven', given: 'Ludwig' });
+    expect(splitAuthorName('Martin Luther King Jr.')).toEqual({ family: 'King', given: 'Martin Luther', suffix: 'Jr.' });
+    expect(splitAuthorName('Doe, Jane')).toEqual({ family: 'Doe', given: 'Jane' });
+  });
+
+  it('should export BibTeX with arXiv fields, journal reference and DOI', async () => {
+    const result = await server._testMethods.exportCitations({ paper_ids: ['1706.03762', 'cs/0001001'] });
+
+    expect(result.content).toHaveLength(1);
+    expect(result.content[0].text).toBe(
+      [
+        '@article{vaswani2017attention-1706.03762,',
+        '  title = {{Attention Is All You Need}},',
+        '  author = {Vaswani, Ashish and Gomez, Aidan N.},',
+        '  journal = {Advances in Neural Information Processing Systems 30 (2017)},',
+        '  year = {2017},',
+        '  eprint = {1706.03762},',
+        '  archivePrefix = {arXiv},',
+        '  primaryClass = {cs.CL},',
+        '  doi = {10.48550/arXiv.1706.03762},',
+        '  url = {https://arxiv.org/abs/1706.03762},',
+        '}',
+        '',
+        '@misc{doe2000old-cs-0001001,',
+        '  title = {{An Old-Style Paper}},',
+        '  author = {Doe, Jane},',
+        '  year = {2000},',
+        '  eprint = {cs/0001001},',
+        '  archivePrefix = {arXiv},',
+        '  primaryClass = {cs.AI},',
+        '  url = {https://arxiv.org/abs/cs/0001001},',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should export RIS and CSL-JSON for search results', async () => {
+    const ris = await server._testMethods.exportCitations({ search: { query: 'attention' }, format: 'ris' });
+    expect(ris.content[0].text).toContain('TY  - JOUR\nID  - vaswani2017attention-1706.03762\nTI  - Attention Is All You Need');
+    expect(ris.content[0].text).toContain('AU  - Gomez, Aidan N.\nPY  - 2017\nDA  - 2017/06/12');
+    expect(ris.content[0].text).toContain('TY  - UNPB');
+    expect(ris.content[0].text.match(/^ER {2}- $/gm)).toHaveLength(2);
+
+    const csl = await server._testMethods.exportCitations({ search: { query: 'attention' }, format: 'csl-json' });
+    const items = JSON.parse(csl.content[0].text);
+    expect(items[0]).toEqual(
+      expect.objectContaining({
+        id: 'vaswani2017attention-1706.03762',
+        type: 'article-journal',
+        'container-title': 'Advances in Neural Information Processing Systems 30 (2017)',
+        DOI: '10.48550/arXiv.1706.03762',
+        issued: { 'date-parts': [[2017, 6, 12]] },
+      })
+    );
+    expect(items[1]).toEqual(expect.objectContaining({ type: 'article', number: 'arXiv:cs/0001001', publisher: 'arXiv' }));
+  });
+
+  it('should give a paper the same citation key whatever it is exported with', async () => {
+    // The second paper shares the first author, year and first title word of the first
+    const metadata = (await fs.readFile(MOCK_METADATA_PATH, 'utf-8'))
+      .replace('<name>Jane Doe</name>', '<name>Ashish Vaswani</name>')
+      .replace('An Old-Style Paper', 'Attention Revisited')
+      .replace('<published>2000-01-01T00:00:00Z</published>', '<published>2017-12-01T00:00:00Z</published>');
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: metadata, status: 200 } as never);
+
+    const alone = await server._testMethods.exportCitations({ paper_ids: ['1706.03762'] });
+    const batch = await server._testMethods.exportCitations({ paper_ids: ['1706.03762', 'cs/0001001'] });
+
+    expect(alone.structuredContent?.keys).toEqual(['vaswani2017attention-1706.03762']);
+    expect(batch.structuredContent?.keys).toEqual(['vaswani2017attention-1706.03762', 'vaswani2017attention-cs-0001001']);
+  });
+
+  it('should export one entry for two versions of the same paper', async () => {
+    // The second entry stands in for the first version of 1706.03762
+    const metadata = (await fs.readFile(MOCK_METADATA_PATH, 'utf-8'))
+      .replace('http://arxiv.org/abs/cs/0001001v1', 'http://arxiv.org/abs/1706.03762v1')
+      .replace('<name>Jane Doe</name>', '<name>Ashish Vaswani</name>')
+      .replace('An Old-Style Paper', 'Attention Is All You Need')
+      .replace('<published>2000-01-01T00:00:00Z</published>', '<published>2017-06-12T00:00:00Z</published>');
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: metadata, status: 200 } as never);
+
+    const result = await server._testMethods.exportCitations({ paper_ids: ['1706.03762v1', '1706.03762v7'], format: 'csl-json' });
+    const items = JSON.parse(result.content[0].text);
+
+    expect(result.structuredContent?.count).toBe(1);
+    expect(items.map((item: any) => item.id)).toEqual(['vaswani2017attention-1706.03762']);
+  });
+
+  it('should report IDs that could not be exported', async () => {
+    const result = await server._testMethods.exportCitations({ paper_ids: ['1706.03762', 'bogus'] });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[1].text).toBe('Not exported:\nbogus: Not a valid arXiv identifier');
+  });
+});
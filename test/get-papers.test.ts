@@ -0,0 +1,75 @@
+/**
+ * Tests for the batch get_papers tool
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('get_papers', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({
+      data: await fs.readFile(MOCK_METADATA_PATH, 'utf-8'),
+      status: 200,
+    } as never);
+  });
+
+  it('should return results in input order with per-item status', async () => {
+    const result = await server._testMethods.getPapers({
+      paper_ids: ['cs/0001001', 'not an id', '2501.99999', '1706.03762v7'],
+    });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    expect(mockedAxios.get.mock.calls[0][0]).toContain('id_list=cs%2F0001001%2C2501.99999%2C1706.03762v7');
+    expect(mockedAxios.get.mock.calls[0][0]).toContain('max_results=3');
+    expect(parsed.requested).toBe(4);
+    expect(parsed.found).toBe(2);
+    expect(parsed.results.map((r: any) => [r.paper_id, r.status])).toEqual([
+      ['cs/0001001', 'found'],
+      ['not an id', 'invalid_id'],
+      ['2501.99999', 'not_found'],
+      ['1706.03762v7', 'found'],
+    ]);
+    expect(parsed.results[0].paper.arxiv_id).toBe('cs/0001001v1');
+    expect(parsed.results[3].paper.arxiv_id).toBe('1706.03762v7');
+  });
+
+  it('should not match a different version than the one requested', async () => {
+    const result = await server._testMethods.getPapers({ paper_ids: ['1706.03762v2'] });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.results[0].status).toBe('not_found');
+  });
+
+  it('should send large batches in chunks', async () => {
+    const ids = Array.from({ length: 120 }, (_, i) => `2501.${String(i).padStart(5, '0')}`);
+    await server._testMethods.getPapers({ paper_ids: ids });
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+    expect(mockedAxios.get.mock.calls[2][0]).toContain('max_results=20');
+  });
+
+  it('should report a failed chunk on its items without failing the batch', async () => {
+    (server as any).maxRetries = 0;
+    mockedAxios.get = jest.fn().mockRejectedValue(new Error('socket hang up') as never);
+
+    const result = await server._testMethods.getPapers({ paper_ids: ['1706.03762', '???'] });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(result.isError).toBeUndefined();
+    expect(parsed.results[0]).toEqual({ paper_id: '1706.03762', status: 'error', error: 'socket hang up' });
+    expect(parsed.results[1].status).toBe('invalid_id');
+  });
+});
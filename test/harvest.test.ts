@@ -0,0 +1,214 @@
+/**
+ * Tests for OAI-PMH metadata harvesting
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ArxivServer } from '../src/index.js';
+
+// A ListRecords page in the arXiv metadata format
+const oaiPage = (records: string, token = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/">
+  <responseDate>2025-05-02T07:00:00Z</responseDate>
+  <request verb="ListRecords">http://export.arxiv.org/oai2</request>
+  <ListRecords>
+    ${records}
+    <resumptionToken cursor="0" completeListSize="3">${token}</resumptionToken>
+  </ListRecords>
+</OAI-PMH>`;
+
+const TRANSFORMER_RECORD = `<record>
+  <header><identifier>oai:arXiv.org:1706.03762</identifier><datestamp>2023-08-03</datestamp><setSpec>cs</setSpec></header>
+  <metadata>
+    <arXiv xmlns="http://arxiv.org/OAI/arXiv/">
+      <id>1706.03762</id>
+      <created>2017-06-12</created>
+      <updated>2023-08-02</updated>
+      <authors>
+        <author><keyname>Vaswani</keyname><forenames>Ashish</forenames><affiliation>Google Brain</affiliation></author>
+        <author><keyname>Shazeer</keyname><forenames>Noam</forenames></author>
+      </authors>
+      <title>Attention Is All You
+  Need</title>
+      <categories>cs.CL cs.LG</categories>
+      <comments>15 pages, 5 figures</comments>
+      <doi>10.48550/arXiv.1706.03762</doi>
+      <abstract>  The dominant sequence transduction models are based on complex recurrent networks.
+</abstract>
+    </arXiv>
+  </metadata>
+</record>`;
+
+const OLD_STYLE_RECORD = `<record>
+  <header><identifier>oai:arXiv.org:cs/0001001</identifier><datestamp>2008-02-03</datestamp><setSpec>cs</setSpec></header>
+  <metadata>
+    <arXiv xmlns="http://arxiv.org/OAI/arXiv/">
+      <id>cs/0001001</id>
+      <created>2000-01-01</created>
+      <authors><author><keyname>Doe</keyname><forenames>Jane</forenames><suffix>Jr</suffix></author></authors>
+      <title>An Old Paper</title>
+      <categories>cs.AI</categories>
+      <journal-ref>J. Old Results 1 (2000) 1-10</journal-ref>
+      <abstract>Old results.</abstract>
+    </arXiv>
+  </metadata>
+</record>`;
+
+const DELETED_RECORD = `<record>
+  <header status="deleted"><identifier>oai:arXiv.org:2001.00001</identifier><datestamp>2020-01-05</datestamp></header>
+</record>`;
+
+describe('harvest_metadata', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+  let workDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-harvest-'));
+    (server as any).harvestDir = workDir;
+    mockedAxios = axios as any;
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  const readJsonl = async (file: string) =>
+    (await fs.readFile(file, 'utf-8'))
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+  it('should convert an arXiv metadata record to the paper shape of search results', () => {
+    const page = (server as any).parseOaiResponse(oaiPage(TRANSFORMER_RECORD));
+    const paper = server._testMethods.oaiRecordToPaper(page.ListRecords.record[0].metadata.arXiv);
+
+    expect(paper).toEqual(
+      expect.objectContaining({
+        id: 'http://arxiv.org/abs/1706.03762',
+        arxiv_id: '1706.03762',
+        version: null,
+        title: 'Attention Is All You Need',
+        summary: 'The dominant sequence transduction models are based on complex recurrent networks.',
+        authors: ['Ashish Vaswani', 'Noam Shazeer'],
+        published: '2017-06-12T00:00:00.000Z',
+        updated: '2023-08-02T00:00:00.000Z',
+        categories: ['cs.CL', 'cs.LG'],
+        primary_category: 'cs.CL',
+        doi: '10.48550/arXiv.1706.03762',
+        journal_ref: null,
+        comment: '15 pages, 5 figures',
+      })
+    );
+    expect(paper.author_details[0]).toEqual({ name: 'Ashish Vaswani', affiliations: ['Google Brain'] });
+    expect(paper.links.map((link) => link.title)).toEqual([undefined, 'pdf', 'doi']);
+  });
+
+  it('should follow resumption tokens and write one JSONL line per paper', async () => {
+    mockedAxios.get = jest
+      .fn()
+      .mockResolvedValueOnce({ data: oaiPage(TRANSFORMER_RECORD + DELETED_RECORD, 'token-1'), status: 200 } as never)
+      .mockResolvedValueOnce({ data: oaiPage(OLD_STYLE_RECORD), status: 200 } as never);
+
+    const result = await server._testMethods.harvestMetadata({ set: 'cs', from: '2000-01-01', until: '2025-01-01' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed).toEqual(
+      expect.objectContaining({
+        output_path: path.join(workDir, 'cs_2000-01-01_2025-01-01.jsonl'),
+        records_written: 2,
+        deleted_skipped: 1,
+        requests: 2,
+        complete: true,
+        complete_list_size: 3,
+        resumption_token: null,
+      })
+    );
+
+    const firstUrl = new URL(mockedAxios.get.mock.calls[0][0]);
+    expect(Object.fromEntries(firstUrl.searchParams)).toEqual({
+      verb: 'ListRecords',
+      metadataPrefix: 'arXiv',
+      set: 'cs',
+      from: '2000-01-01',
+      until: '2025-01-01',
+    });
+    // Follow-up requests send only the token
+    const secondUrl = new URL(mockedAxios.get.mock.calls[1][0]);
+    expect(Object.fromEntries(secondUrl.searchParams)).toEqual({ verb: 'ListRecords', resumptionToken: 'token-1' });
+
+    const papers = await readJsonl(parsed.output_path);
+    expect(papers.map((paper) => paper.arxiv_id)).toEqual(['1706.03762', 'cs/0001001']);
+    expect(papers[1]).toEqual(
+      expect.objectContaining({ authors: ['Jane Doe Jr'], journal_ref: 'J. Old Results 1 (2000) 1-10', doi: null })
+    );
+  });
+
+  it('should stop at max_records and resume from the returned token', async () => {
+    mockedAxios.get = jest
+      .fn()
+      .mockResolvedValueOnce({ data: oaiPage(TRANSFORMER_RECORD, 'token-1'), status: 200 } as never)
+      .mockResolvedValueOnce({ data: oaiPage(OLD_STYLE_RECORD), status: 200 } as never);
+
+    const first = JSON.parse(
+      (await server._testMethods.harvestMetadata({ set: 'cs', max_records: 1, output_path: 'cs.jsonl' })).content[0].text
+    );
+    expect(first).toEqual(expect.objectContaining({ records_written: 1, complete: false, resumption_token: 'token-1' }));
+
+    const second = JSON.parse(
+      (
+        await server._testMethods.harvestMetadata({ resumption_token: first.resumption_token, output_path: 'cs.jsonl' })
+      ).content[0].text
+    );
+    expect(second).toEqual(expect.objectContaining({ records_written: 1, complete: true }));
+
+    const papers = await readJsonl(path.join(workDir, 'cs.jsonl'));
+    expect(papers.map((paper) => paper.arxiv_id)).toEqual(['1706.03762', 'cs/0001001']);
+  });
+
+  it('should treat noRecordsMatch as an empty harvest and reject malformed dates', async () => {
+    mockedAxios.get = jest.fn().mockResolvedValue({
+      data: `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/">
+  <error code="noRecordsMatch">No records match</error>
+</OAI-PMH>`,
+      status: 200,
+    } as never);
+
+    const parsed = JSON.parse((await server._testMethods.harvestMetadata({ set: 'math' })).content[0].text);
+    expect(parsed).toEqual(expect.objectContaining({ records_written: 0, complete: true }));
+    expect(await fs.readFile(parsed.output_path, 'utf-8')).toBe('');
+
+    await expect(server._testMethods.harvestMetadata({ from: '01/02/2025' })).rejects.toThrow(/YYYY-MM-DD/);
+  });
+
+  it('should refuse to write outside the harvest directory', async () => {
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: oaiPage(TRANSFORMER_RECORD), status: 200 } as never);
+    const outsidePath = `${workDir}-outside.txt`;
+    await fs.writeFile(outsidePath, 'keep me');
+
+    try {
+      for (const outputPath of [outsidePath, '../outside.jsonl', 'nested/../../outside.jsonl', '.']) {
+        await expect(server._testMethods.harvestMetadata({ set: 'cs', output_path: outputPath })).rejects.toThrow(
+          /inside the harvest directory/
+        );
+      }
+      expect(await fs.readFile(outsidePath, 'utf-8')).toBe('keep me');
+      expect(mockedAxios.get).not.toHaveBeenCalled();
+
+      // Absolute paths inside the directory, as returned by an earlier harvest, are still accepted
+      const parsed = JSON.parse(
+        (await server._testMethods.harvestMetadata({ set: 'cs', output_path: path.join(workDir, 'nested', 'cs.jsonl') }))
+          .content[0].text
+      );
+      expect(parsed.records_written).toBe(1);
+    } finally {
+      await fs.remove(outsidePath);
+    }
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for the Streamable HTTP and legacy SSE transports
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import axios from 'axios';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ArxivServer } from '../src/index.js';
+
+const EMPTY_FEED = `<?xml version='1.0' encoding='UTF-8'?>
+<rss version="2.0"><channel><title>math updates on arXiv.org</title><pubDate>Sat, 03 May 2025 00:00:00 -0400</pubDate></channel></rss>`;
+
+describe('HTTP transport', () => {
+  let server: ArxivServer;
+  let baseUrl: string;
+  let clients: Client[];
+
+  const start = async (authToken: string | null = null) => {
+    const httpServer = await server._testMethods.startHttpServer({ transport: 'http', host: '127.0.0.1', port: 0, authToken });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  };
+
+  const connect = async (transport: StreamableHTTPClientTransport | SSEClientTransport) => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await server._testMethods.stopHttpServer();
+  });
+
+  it('should serve tools over Streamable HTTP to clients with the bearer token', async () => {
+    await start('secret');
+    (axios as any).get = jest.fn().mockResolvedValue({ data: EMPTY_FEED, status: 200 } as never);
+
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: { headers: { Authorization: 'Bearer secret' } },
+      })
+    );
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toContain('search_papers');
+
+    const result = await client.callTool({ name: 'get_new_submissions', arguments: { category: 'math' } });
+    const content = result.content as { type: string; text: string }[];
+    expect(JSON.parse(content[0].text).counts).toEqual({ new: 0, cross_lists: 0, replacements: 0 });
+  });
+
+  it('should reject requests without the bearer token or a session', async () => {
+    await start('secret');
+
+    const unauthorized = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.headers.get('www-authenticate')).toBe('Bearer');
+
+    const headers = { Authorization: 'Bearer secret', 'Content-Type': 'application/json' };
+    const noSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(noSession.status).toBe(400);
+
+    const unknownSession = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'Mcp-Session-Id': 'no-such-session' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(unknownSession.status).toBe(404);
+  });
+
+  it('should reject requests from foreign origins and hosts', async () => {
+    await start();
+    const port = new URL(baseUrl).port;
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test-client', version: '1.0.0' } },
+    });
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const foreign = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...headers, Origin: 'http://evil.example' }, body });
+    expect(foreign.status).toBe(403);
+    const foreignSse = await fetch(`${baseUrl}/sse`, { headers: { Origin: `http://evil.example:${port}` } });
+    expect(foreignSse.status).toBe(403);
+
+    // A page served by DNS rebinding sends its own name as the Host
+    const rebound = await new Promise<number | undefined>((resolve, reject) => {
+      http
+        .get({ host: '127.0.0.1', port, path: '/sse', headers: { Host: `evil.example:${port}` } }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        })
+        .on('error', reject);
+    });
+    expect(rebound).toBe(403);
+
+    const local = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers: { ...headers, Origin: `http://localhost:${port}` }, body });
+    expect(local.status).toBe(200);
+    await local.body?.cancel();
+    expect((server as any).httpSessions.size).toBe(1);
+  });
+
+  it('should serve legacy SSE clients alongside Streamable HTTP ones', async () => {
+    await start();
+
+    const sseClient = await connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    const httpClient = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+    const [sseTools, httpTools] = await Promise.all([sseClient.listTools(), httpClient.listTools()]);
+    expect(sseTools.tools.map((tool) => tool.name)).toEqual(httpTools.tools.map((tool) => tool.name));
+    expect((server as any).httpSessions.size).toBe(2);
+  });
+
+  it('should close the least recently used session past the session limit', async () => {
+    await start();
+    (server as any).maxHttpSessions = 2;
+
+    const first = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    const second = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    await first.listTools();
+    const third = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+    expect((server as any).httpSessions.size).toBe(2);
+    await expect(first.listTools()).resolves.toBeDefined();
+    await expect(third.listTools()).resolves.toBeDefined();
+    await expect(second.listTools()).rejects.toThrow(/Session not found/);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for the personal library tools
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('personal library', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+  let workDir: string;
+  let libraryPath: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-library-'));
+    libraryPath = path.join(workDir, 'library.json');
+    (server as any).libraryPath = libraryPath;
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({
+      data: await fs.readFile(MOCK_METADATA_PATH, 'utf-8'),
+      status: 200,
+    } as never);
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should save a paper with a metadata snapshot, collection, tags and note', async () => {
+    const result = await server._testMethods.savePaper({
+      paper_id: '1706.03762v7',
+      collection: 'Transformers',
+      tags: ['Attention', ' nlp '],
+      note: 'The original transformer paper',
+    });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.saved).toBe(true);
+    expect(parsed.entry).toEqual(
+      expect.objectContaining({
+        paper_id: '1706.03762',
+        collections: ['Transformers'],
+        tags: ['attention', 'nlp'],
+        notes: [expect.objectContaining({ text: 'The original transformer paper' })],
+      })
+    );
+    expect(parsed.entry.metadata.title).toBe('Attention Is All You Need');
+
+    const stored = await fs.readJson(libraryPath);
+    expect(Object.keys(stored.papers)).toEqual(['1706.03762']);
+  });
+
+  it('should reuse the snapshot when a saved paper is saved again', async () => {
+    await server._testMethods.savePaper({ paper_id: '1706.03762', collection: 'Transformers' });
+    const result = await server._testMethods.savePaper({ paper_id: '1706.03762', collection: 'Reading group', tags: ['nlp'] });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    expect(parsed.saved).toBe(false);
+    expect(parsed.entry.collections).toEqual(['Transformers', 'Reading group']);
+  });
+
+  it('should not hold up other library tools while fetching metadata', async () => {
+    await server._testMethods.savePaper({ paper_id: '1706.03762', tags: ['nlp'] });
+
+    let respond: (value: unknown) => void = () => undefined;
+    mockedAxios.get.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)));
+    const save = server._testMethods.savePaper({ paper_id: 'cs/0001001', collection: 'Classics' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+
+    // Changes made while arXiv is asked are kept by the save that finishes afterwards
+    await server._testMethods.updateSavedPaper({ paper_id: '1706.03762', add_tags: ['transformers'] });
+    const listed = JSON.parse((await server._testMethods.listLibrary({})).content[0].text);
+    expect(listed.total_saved).toBe(1);
+
+    respond({ data: await fs.readFile(MOCK_METADATA_PATH, 'utf-8'), status: 200 });
+    const saved = JSON.parse((await save).content[0].text);
+    expect(saved.entry.metadata.arxiv_id).toBe('cs/0001001v1');
+
+    const stored = await fs.readJson(libraryPath);
+    expect(Object.keys(stored.papers).sort()).toEqual(['1706.03762', 'cs/0001001']);
+    expect(stored.papers['1706.03762'].tags).toEqual(['nlp', 'transformers']);
+  });
+
+  it('should update tags, collections and notes, and remove papers', async () => {
+    await server._testMethods.savePaper({ paper_id: '1706.03762', collection: 'Transformers', tags: ['nlp'], note: 'old' });
+
+    const updated = JSON.parse(
+      (
+        await server._testMethods.updateSavedPaper({
+          paper_id: '1706.03762',
+          add_tags: ['classic'],
+          remove_tags: ['NLP'],
+          add_collections: ['Must read'],
+          clear_notes: true,
+          note: 'new',
+        })
+      ).content[0].text
+    );
+    expect(updated.tags).toEqual(['classic']);
+    expect(updated.collections).toEqual(['Transformers', 'Must read']);
+    expect(updated.notes.map((note: any) => note.text)).toEqual(['new']);
+
+    await server._testMethods.removeSavedPaper({ paper_id: '1706.03762', collection: 'Transformers' });
+    expect((await fs.readJson(libraryPath)).papers['1706.03762'].collections).toEqual(['Must read']);
+
+    await server._testMethods.removeSavedPaper({ paper_id: '1706.03762' });
+    expect((await fs.readJson(libraryPath)).papers).toEqual({});
+
+    const missing = await server._testMethods.updateSavedPaper({ paper_id: '1706.03762', add_tags: ['x'] });
+    expect(missing.isError).toBe(true);
+  });
+
+  it('should list and filter the library', async () => {
+    await server._testMethods.savePaper({ paper_id: '1706.03762', collection: 'Transformers', tags: ['nlp'] });
+    await server._testMethods.savePaper({ paper_id: 'cs/0001001', collection: 'Old', tags: ['nlp', 'classic'], note: 'Historic' });
+
+    const all = JSON.parse((await server._testMethods.listLibrary({})).content[0].text);
+    expect(all.total_saved).toBe(2);
+    expect(all.collections).toEqual({ Transformers: 1, Old: 1 });
+    const oldPaper = all.papers.find((paper: any) => paper.paper_id === 'cs/0001001');
+    expect(oldPaper).toEqual(expect.objectContaining({ title: 'An Old-Style Paper', tags: ['nlp', 'classic'] }));
+    expect(oldPaper.metadata).toBeUndefined();
+
+    const byTags = JSON.parse((await server._testMethods.listLibrary({ tags: ['NLP', 'classic'] })).content[0].text);
+    expect(byTags.papers.map((paper: any) => paper.paper_id)).toEqual(['cs/0001001']);
+
+    const byQuery = JSON.parse((await server._testMethods.listLibrary({ query: 'vaswani', include_metadata: true })).content[0].text);
+    expect(byQuery.papers.map((paper: any) => paper.metadata.arxiv_id)).toEqual(['1706.03762v7']);
+
+    const byCollection = JSON.parse((await server._testMethods.listLibrary({ collection: 'Old' })).content[0].text);
+    expect(byCollection.count).toBe(1);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for the persistent arXiv query result cache
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ArxivServer } from '../src/index.js';
+import { MOCK_ARXIV_RESPONSE_PATH } from './setup.js';
+
+describe('metadata cache', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+  let mockedAxios: any;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-metadata-'));
+
+    // Enable the cache in a temporary directory and skip the request interval
+    mockedServer = server as any;
+    mockedServer.metadataCacheDir = cacheDir;
+    mockedServer.paperCacheTtlSeconds = 3600;
+    mockedServer.searchCacheTtlSeconds = 60;
+    mockedServer.requestIntervalMs = 0;
+
+    const mockResponse = await fs.readFile(MOCK_ARXIV_RESPONSE_PATH, 'utf-8');
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: mockResponse, status: 200 } as never);
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it('should serve repeated queries from the cache', async () => {
+    const first = await server._testMethods.getPaper({ paper_id: '2501.12345' });
+    const second = await server._testMethods.getPaper({ paper_id: '2501.12345' });
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    expect(second.content[0].text).toBe(first.content[0].text);
+    expect(await fs.readdir(cacheDir)).toHaveLength(1);
+  });
+
+  it('should key entries on normalized parameters and refresh when bypassed', async () => {
+    await server._testMethods.queryArxiv({ search_query: 'cat:cs.AI', max_results: 10 });
+    await server._testMethods.queryArxiv({ max_results: 10, search_query: 'cat:cs.AI', start: undefined });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+
+    await server._testMethods.queryArxiv({ search_query: 'cat:cs.AI', max_results: 10 }, true);
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire search results sooner than paper lookups', async () => {
+    await server._testMethods.queryArxiv({ id_list: '2501.12345' });
+    await server._testMethods.queryArxiv({ search_query: 'all:learning' });
+
+    // Age every entry by two minutes - past the search TTL but within the paper TTL
+    for (const file of await fs.readdir(cacheDir)) {
+      const entry = await fs.readJson(path.join(cacheDir, file));
+      entry.cached_at -= 120000;
+      await fs.writeJson(path.join(cacheDir, file), entry);
+    }
+
+    await server._testMethods.queryArxiv({ id_list: '2501.12345' });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+
+    await server._testMethods.queryArxiv({ search_query: 'all:learning' });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should sweep expired entries that are never read again', async () => {
+    await server._testMethods.queryArxiv({ id_list: '2501.12345' });
+    await server._testMethods.queryArxiv({ search_query: 'all:learning' });
+    for (const file of await fs.readdir(cacheDir)) {
+      const entry = await fs.readJson(path.join(cacheDir, file));
+      entry.cached_at -= 120000;
+      await fs.writeJson(path.join(cacheDir, file), entry);
+    }
+    await fs.writeFile(path.join(cacheDir, 'corrupt.json'), '{');
+
+    // Writes sweep at most every few minutes, so this one does not
+    await server._testMethods.queryArxiv({ search_query: 'all:graphs' });
+    expect(await fs.readdir(cacheDir)).toHaveLength(4);
+
+    mockedServer.lastMetadataCacheSweepAt = 0;
+    await server._testMethods.queryArxiv({ search_query: 'all:proteins' });
+
+    const remaining = await Promise.all(
+      (await fs.readdir(cacheDir)).map(async (file) => (await fs.readJson(path.join(cacheDir, file))).params)
+    );
+    expect(remaining).toHaveLength(3);
+    expect(remaining).toEqual(
+      expect.arrayContaining([{ id_list: '2501.12345' }, { search_query: 'all:graphs' }, { search_query: 'all:proteins' }])
+    );
+  });
+});
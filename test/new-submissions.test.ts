@@ -0,0 +1,115 @@
+/**
+ * Tests for the get_new_submissions tool
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { ArxivServer } from '../src/index.js';
+
+const rssItem = (id: string, type: string, title: string, categories: string[]) => `
+    <item>
+      <title>${title}</title>
+      <link>https://arxiv.org/abs/${id.replace(/v\d+$/, '')}</link>
+      <description>arXiv:${id} Announce Type: ${type}
+Abstract: Abstract of ${title}.</description>
+      <guid isPermaLink="false">oai:arXiv.org:${id}</guid>
+      ${categories.map((category) => `<category>${category}</category>`).join('')}
+      <pubDate>Fri, 02 May 2025 00:00:00 -0400</pubDate>
+      <arxiv:announce_type>${type}</arxiv:announce_type>
+      <dc:rights>http://creativecommons.org/licenses/by/4.0/</dc:rights>
+      <dc:creator>Alice Smith, Bob Jones and Carol White</dc:creator>
+    </item>`;
+
+const rssFeed = (items: string) => `<?xml version='1.0' encoding='UTF-8'?>
+<rss xmlns:arxiv="http://arxiv.org/schemas/atom" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:atom="http://www.w3.org/2005/Atom" version="2.0">
+  <channel>
+    <title>cs.CL updates on arXiv.org</title>
+    <link>http://rss.arxiv.org/rss/cs.CL</link>
+    <description>cs.CL updates on the arXiv.org e-print archive.</description>
+    <atom:link href="https://rss.arxiv.org/rss/cs.CL" rel="self" type="application/rss+xml"/>
+    <pubDate>Fri, 02 May 2025 00:00:00 -0400</pubDate>
+    <skipDays><day>Saturday</day><day>Sunday</day></skipDays>${items}
+  </channel>
+</rss>`;
+
+describe('get_new_submissions', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({
+      data: rssFeed(
+        rssItem('2505.00001v1', 'new', 'A New Parser', ['cs.CL']) +
+          rssItem('2505.00002v1', 'cross', 'Vision &amp; Language', ['cs.CV', 'cs.CL']) +
+          rssItem('2401.00003v3', 'replace', 'A Revised Model', ['cs.CL']) +
+          rssItem('2312.00004v2', 'replace-cross', 'A Revised Cross-List', ['cs.LG', 'cs.CL'])
+      ),
+      status: 200,
+    } as never);
+  });
+
+  it('should split the announcement into new submissions, cross-lists and replacements', async () => {
+    const result = await server._testMethods.getNewSubmissions({ category: 'cs.CL' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://rss.arxiv.org/rss/cs.CL');
+    expect(parsed.category).toBe('cs.CL');
+    expect(parsed.announced).toBe('2025-05-02T04:00:00.000Z');
+    expect(parsed.counts).toEqual({ new: 1, cross_lists: 1, replacements: 2 });
+    expect(parsed.cross_lists[0].title).toBe('Vision & Language');
+    expect(parsed.replacements.map((paper: any) => paper.arxiv_id)).toEqual(['2401.00003v3', '2312.00004v2']);
+    expect(parsed.note).toBeUndefined();
+  });
+
+  it('should describe each paper from its feed item', async () => {
+    const result = await server._testMethods.getNewSubmissions({ category: 'cs.CL' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.new[0]).toEqual({
+      arxiv_id: '2505.00001v1',
+      version: 1,
+      title: 'A New Parser',
+      authors: ['Alice Smith', 'Bob Jones', 'Carol White'],
+      categories: ['cs.CL'],
+      announce_type: 'new',
+      link: 'https://arxiv.org/abs/2505.00001',
+      summary: 'Abstract of A New Parser.',
+    });
+  });
+
+  it('should return only the requested groups, without abstracts on request', async () => {
+    const result = await server._testMethods.getNewSubmissions({
+      category: ['cs.CL', 'stat.ML'],
+      groups: ['new', 'cross_lists'],
+      include_abstracts: false,
+    });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://rss.arxiv.org/rss/cs.CL+stat.ML');
+    expect(Object.keys(parsed.counts)).toEqual(['new', 'cross_lists']);
+    expect(parsed.replacements).toBeUndefined();
+    expect(parsed.new[0].summary).toBeUndefined();
+
+    await expect(server._testMethods.getNewSubmissions({ category: 'cs.CL OR 1' })).rejects.toThrow(/Invalid category/);
+    // Names every object inherits are not groups either, and are refused before the feed is fetched
+    for (const group of ['constructor', 'toString', '__proto__']) {
+      await expect(server._testMethods.getNewSubmissions({ category: 'cs.CL', groups: [group as any] })).rejects.toThrow(
+        /Invalid group/
+      );
+    }
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should explain an empty feed', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: rssFeed(''), status: 200 } as never);
+
+    const result = await server._testMethods.getNewSubmissions({ category: 'math' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.counts).toEqual({ new: 0, cross_lists: 0, replacements: 0 });
+    expect(parsed.note).toMatch(/weekends and holidays/);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for page-range and chunked retrieval in the get_paper_content tool
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { ArxivServer } from '../src/index.js';
+
+describe('get_paper_content paging', () => {
+  let server: ArxivServer;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+
+    // Stub the PDF pipeline on the instance with a five page document
+    const mockedServer = server as any;
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractPagesFromPdf = jest
+      .fn()
+      .mockResolvedValue(['Page one', 'Page two', 'Page three', 'Page four', 'Page five'] as never);
+  });
+
+  it('should parse page range specifications', () => {
+    const parsePageRange = server._testMethods.parsePageRange;
+
+    expect(parsePageRange('3-5', 10)).toEqual([3, 4, 5]);
+    expect(parsePageRange('7', 10)).toEqual([7]);
+    expect(parsePageRange('9-', 10)).toEqual([9, 10]);
+    expect(parsePageRange('4-6, 1', 5)).toEqual([1, 4, 5]);
+    expect(() => parsePageRange('5-3', 10)).toThrow('Invalid page range');
+    expect(() => parsePageRange('abc', 10)).toThrow('Invalid page range');
+    expect(() => parsePageRange('20-30', 10)).toThrow('outside the document');
+  });
+
+  it('should return the selected pages with page and chunk totals', async () => {
+    const result = await server._testMethods.getPaperContent({
+      paper_id: '2501.12345',
+      pages: '2-3',
+    });
+
+    expect(result.isError).toBeUndefined();
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed).toEqual(
+      expect.objectContaining({
+        pages: '2-3',
+        page_numbers: [2, 3],
+        total_pages: 5,
+        chunk_index: 0,
+        total_chunks: 1,
+        next_chunk_index: null,
+        text: 'Page two Page three',
+      })
+    );
+  });
+
+  it('should page through the text in chunks', async () => {
+    const getPaperContent = server._testMethods.getPaperContent;
+
+    const first = JSON.parse(
+      (await getPaperContent({ paper_id: '2501.12345', chunk_size: 20 })).content[0].text
+    );
+    expect(first.total_chunks).toBe(3);
+    expect(first.next_chunk_index).toBe(1);
+    expect(first.text).toBe('Page one Page two Pa');
+
+    const last = JSON.parse(
+      (await getPaperContent({ paper_id: '2501.12345', chunk_size: 20, chunk_index: 2 })).content[0].text
+    );
+    expect(last.next_chunk_index).toBeNull();
+    expect(last.text).toBe('age five');
+
+    const outOfRange = await getPaperContent({ paper_id: '2501.12345', chunk_size: 20, chunk_index: 3 });
+    expect(outOfRange.isError).toBe(true);
+    expect(outOfRange.content[0].text).toContain('out of range');
+  });
+});
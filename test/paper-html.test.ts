@@ -0,0 +1,126 @@
+/**
+ * Tests for the HTML extraction backend of get_paper_content
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ArxivServer } from '../src/index.js';
+
+// Trimmed-down page in the shape arXiv's LaTeXML renderer produces
+const MOCK_HTML = `<!DOCTYPE html>
+<html><head><title>Test</title><script>var x = 1;</script></head>
+<body>
+<header class="desktop_header">Back to arXiv</header>
+<article class="ltx_document">
+<h1 class="ltx_title ltx_title_document">Learning with Math</h1>
+<div class="ltx_abstract"><h6 class="ltx_title ltx_title_abstract">Abstract</h6>
+<p class="ltx_p">We minimise <math alttext="f(x)" display="inline"><semantics><mi>f</mi></semantics></math> quickly.</p></div>
+<section class="ltx_section"><h2 class="ltx_title ltx_title_section"><span class="ltx_tag">1 </span>Introduction</h2>
+<p class="ltx_p">Prior work <a href="#bib.bib1" class="ltx_ref">[1]</a> used:</p>
+<ul><li>gradient descent</li><li>momentum</li></ul>
+<math alttext="E=mc^{2}" display="block"><mi>E</mi></math>
+<figure><img src="x1.png" alt="Loss curve"><figcaption>Figure 1: Training loss.</figcaption></figure>
+</section>
+<section class="ltx_section"><h2 class="ltx_title ltx_title_section"><span class="ltx_tag">2 </span>Conclusion</h2>
+<p class="ltx_p">It works.</p></section>
+</article>
+<footer>About arXiv</footer>
+</body></html>`;
+
+describe('get_paper_content HTML extractor', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+  let mockedAxios: any;
+  let workDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    mockedServer = server as any;
+    mockedServer.requestIntervalMs = 0;
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-html-'));
+    mockedServer.htmlCacheDir = workDir;
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: MOCK_HTML, status: 200 } as never);
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should convert the article to Markdown with math, lists and image alt text', () => {
+    const markdown = server._testMethods.htmlToMarkdown(MOCK_HTML, 'https://arxiv.org/html/2501.12345v1/');
+
+    expect(markdown).toBe(
+      [
+        '# Learning with Math',
+        '',
+        '###### Abstract',
+        '',
+        'We minimise $f(x)$ quickly.',
+        '',
+        '## 1 Introduction',
+        '',
+        'Prior work [1] used:',
+        '',
+        '-   gradient descent',
+        '-   momentum',
+        '',
+        '$$E=mc^{2}$$',
+        '',
+        '![Loss curve](https://arxiv.org/html/2501.12345v1/x1.png)',
+        '',
+        'Figure 1: Training loss.',
+        '',
+        '## 2 Conclusion',
+        '',
+        'It works.',
+      ].join('\n')
+    );
+  });
+
+  it('should return HTML sections and cache the page', async () => {
+    const result = await server._testMethods.getPaperContent({
+      paper_id: '2501.12345',
+      extractor: 'html',
+      section: 'conclusion',
+    });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://arxiv.org/html/2501.12345');
+    expect(parsed.extractor).toBe('html');
+    expect(parsed.sections).toEqual([
+      expect.objectContaining({ type: 'section', number: '2', heading: 'Conclusion', text: 'It works.' }),
+    ]);
+
+    await server._testMethods.getPaperContent({ paper_id: '2501.12345', extractor: 'html' });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the PDF in auto mode when there is no HTML version', async () => {
+    mockedAxios.get = jest.fn().mockRejectedValue(
+      Object.assign(new Error('Request failed with status code 404'), {
+        isAxiosError: true,
+        response: { status: 404 },
+      }) as never
+    );
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue('PDF   text' as never);
+
+    const auto = await server._testMethods.getPaperContent({ paper_id: '2501.12345', extractor: 'auto' });
+    expect(auto.content[0].text).toBe('PDF text');
+
+    const html = await server._testMethods.getPaperContent({ paper_id: '2501.12345', extractor: 'html' });
+    expect(html.isError).toBe(true);
+    expect(html.content[0].text).toContain('No HTML version of 2501.12345');
+  });
+
+  it('should reject page ranges for the HTML extractor', async () => {
+    const result = await server._testMethods.getPaperContent({ paper_id: '2501.12345', extractor: 'html', pages: '1-2' });
+
+    expect(result.isError).toBe(true);
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for reference list extraction and the get_paper_references tool
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+import { MOCK_PAPER_PATH } from './setup.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('paper references', () => {
+  let server: ArxivServer;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+  });
+
+  it('should split a bracketed reference list', async () => {
+    const references = server._testMethods.extractReferences(await fs.readFile(MOCK_PAPER_PATH, 'utf-8'));
+
+    expect(references).toHaveLength(4);
+    expect(references[2]).toEqual({
+      index: 3,
+      label: '3',
+      text: 'Brown, T. et al. (2023). Language Models are Few-Shot Learners. Advances in Neural Information Processing Systems, 33, 1877-1901.',
+      arxiv_ids: [],
+      dois: [],
+    });
+  });
+
+  it('should follow numbered entries across wrapped lines and detect identifiers', () => {
+    const references = server._testMethods.extractReferences(
+      [
+        '1 Introduction',
+        'Body text.',
+        'References',
+        '1. A. Vaswani, N. Shazeer, et al. Attention is all you need. arXiv preprint',
+        'arXiv:1706.03762, 2017.',
+        '2. J. Doe. An old paper. CoRR, abs/1810.04805. 2018.',
+        '3. E. Witten. String theory dynamics in various dimensions. Nucl. Phys. B443',
+        '(1995) 85, hep-th/9503124. doi:10.1016/0550-3213(95)00158-O.',
+      ].join('\n')
+    );
+
+    expect(references.map((reference) => reference.label)).toEqual(['1', '2', '3']);
+    expect(references[0].arxiv_ids).toEqual(['1706.03762']);
+    expect(references[1].arxiv_ids).toEqual(['1810.04805']);
+    expect(references[2].arxiv_ids).toEqual(['hep-th/9503124']);
+    expect(references[2].dois).toEqual(['10.1016/0550-3213(95)00158-O']);
+  });
+
+  it('should split author-year references and stop at the appendix', () => {
+    const references = server._testMethods.extractReferences(
+      [
+        'References',
+        'Vaswani, A., Shazeer, N., and Parmar, N. Attention is all you',
+        'need. In NeurIPS, 2017.',
+        'Devlin, J., Chang, M.-W., Lee, K., and Toutanova, K. BERT:',
+        'Pre-training of deep bidirectional transformers. https://doi.org/10.48550/arXiv.1810.04805.',
+        'A Proof of Theorem 1',
+        'The proof.',
+      ].join('\n')
+    );
+
+    expect(references).toHaveLength(2);
+    expect(references[0].text).toBe('Vaswani, A., Shazeer, N., and Parmar, N. Attention is all you need. In NeurIPS, 2017.');
+    expect(references[1].arxiv_ids).toEqual(['1810.04805']);
+    expect(references[1].dois).toEqual(['10.48550/arXiv.1810.04805']);
+  });
+
+  it('should resolve cited arXiv papers when asked', async () => {
+    const mockedServer = server as any;
+    mockedServer.requestIntervalMs = 0;
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue(
+      'Body.\nReferences\n[1] A. Vaswani et al. Attention is all you need. arXiv:1706.03762.\n[2] No identifiers here.' as never
+    );
+    const mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({
+      data: await fs.readFile(MOCK_METADATA_PATH, 'utf-8'),
+      status: 200,
+    } as never);
+
+    const result = await server._testMethods.getPaperReferences({ paper_id: '2501.12345', resolve_arxiv: true });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    expect(parsed.total_references).toBe(2);
+    expect(parsed.references[0].arxiv_papers.map((paper: any) => paper.title)).toEqual(['Attention Is All You Need']);
+    expect(parsed.references[1].arxiv_papers).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for section-aware output of the get_paper_content tool
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import fs from 'fs-extra';
+import { ArxivServer } from '../src/index.js';
+import { MOCK_PAPER_PATH } from './setup.js';
+
+describe('get_paper_content sections', () => {
+  let server: ArxivServer;
+  let mockPaper: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    mockPaper = await fs.readFile(MOCK_PAPER_PATH, 'utf-8');
+  });
+
+  it('should split paper text into headed sections', () => {
+    const sections = server._testMethods.splitIntoSections(mockPaper);
+
+    expect(sections.map((section) => section.number || section.type)).toEqual([
+      'title',
+      'abstract',
+      '1',
+      '2',
+      '2.1',
+      '2.2',
+      '3',
+      '3.1',
+      '3.2',
+      '3.3',
+      '4',
+      '5',
+      'references',
+    ]);
+    expect(sections[0]).toEqual(
+      expect.objectContaining({ heading: 'Advanced Machine Learning Techniques', text: 'by John Smith' })
+    );
+    expect(sections[1].text).toMatch(/^This paper discusses advanced machine learning techniques/);
+    expect(sections[4]).toEqual(
+      expect.objectContaining({ heading: 'Traditional Machine Learning', level: 2 })
+    );
+  });
+
+  it('should ignore numbered body lines that do not continue the section numbering', () => {
+    const sections = server._testMethods.splitIntoSections(
+      [
+        'Abstract',
+        'A short abstract.',
+        '1 Introduction',
+        'Some text.',
+        '3 Times More Data',
+        '1.1 Motivation',
+        'Why we did it.',
+        'I. NOT A HEADING',
+        'Acknowledgements',
+        'Thanks to everyone.',
+        'References',
+        '[1] A. Author. Some paper, 2020.',
+        'A Proof of Theorem 1',
+        'The proof.',
+      ].join('\n')
+    );
+
+    expect(sections.map((section) => section.heading)).toEqual([
+      'Abstract',
+      'Introduction',
+      'Motivation',
+      'Acknowledgements',
+      'References',
+      'Proof of Theorem 1',
+    ]);
+    expect(sections[1].text).toBe('Some text. 3 Times More Data');
+    expect(sections[5].type).toBe('appendix');
+  });
+
+  it('should return only the requested section', async () => {
+    // Stub the PDF pipeline on the instance so getPaperContent sees the mock text
+    const mockedServer = server as any;
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue(mockPaper as never);
+
+    const result = await server._testMethods.getPaperContent({
+      paper_id: '2501.12345',
+      section: 'conclusion',
+    });
+
+    expect(result.isError).toBeUndefined();
+    const parsed = JSON.parse(result.content[0].text);
+    expect(parsed.sections).toHaveLength(1);
+    expect(parsed.sections[0].heading).toBe('Conclusion');
+    expect(parsed.sections[0].text).toMatch(/^Advanced machine learning techniques offer/);
+  });
+});
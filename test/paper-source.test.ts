@@ -0,0 +1,161 @@
+/**
+ * Tests for LaTeX source retrieval and the get_paper_source tool
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { gzipSync } from 'zlib';
+import * as tar from 'tar';
+import { ArxivServer } from '../src/index.js';
+
+const MAIN_TEX = [
+  '\\documentclass{article}',
+  '\\usepackage{amsmath}',
+  '\\begin{document}',
+  '\\title{Test}\\maketitle',
+  '\\begin{abstract}',
+  'We prove \\emph{everything}.',
+  '\\end{abstract}',
+  '\\input{sections/intro}',
+  '% \\input{unused}',
+  '\\end{document}',
+].join('\n');
+
+const INTRO_TEX = [
+  '\\section{Introduction}\\label{sec:intro}',
+  'As shown by \\citet{smith2020, doe2021}, % a comment',
+  '\\begin{equation}',
+  '  E = mc^2 \\label{eq:1}',
+  '\\end{equation}',
+].join('\n');
+
+describe('paper source', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+  let mockedAxios: any;
+  let workDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    mockedServer = server as any;
+    mockedServer.requestIntervalMs = 0;
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-source-'));
+    mockedServer.sourceCacheDir = path.join(workDir, 'source');
+    mockedServer.pdfCacheDir = path.join(workDir, 'pdfs');
+    mockedAxios = axios as any;
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  // Packs files into a gzipped tar archive, the usual e-print format
+  const makeArchive = async (files: Record<string, string>) => {
+    const filesDir = path.join(workDir, 'files');
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(filesDir, file), content);
+    }
+    const archivePath = path.join(workDir, 'source.tar.gz');
+    await tar.c({ gzip: true, file: archivePath, cwd: filesDir }, Object.keys(files));
+    return fs.readFile(archivePath);
+  };
+
+  it('should unpack the e-print, find the main file and inline inputs', async () => {
+    const archive = await makeArchive({
+      'macros.tex': '\\newcommand{\\R}{\\mathbb{R}}',
+      'paper.tex': MAIN_TEX,
+      'sections/intro.tex': INTRO_TEX,
+    });
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: archive, status: 200 } as never);
+
+    const result = await server._testMethods.getPaperSource({ paper_id: '2501.12345', version: 2 });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://arxiv.org/e-print/2501.12345v2');
+    expect(parsed.main_file).toBe('paper.tex');
+    expect(parsed.tex_files).toEqual(['macros.tex', 'paper.tex', path.join('sections', 'intro.tex')]);
+    expect(parsed.content).toContain('\\section{Introduction}\\label{sec:intro}');
+    expect(parsed.content).toContain('% \\input{unused}');
+
+    // The unpacked source is reused on the next call
+    await server._testMethods.getPaperSource({ paper_id: '2501.12345', version: 2 });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clean LaTeX into text with math intact', async () => {
+    const sourceDir = path.join(workDir, 'files');
+    await fs.outputFile(path.join(sourceDir, 'sections', 'intro.tex'), INTRO_TEX);
+    const latex = await server._testMethods.resolveTexInputs(MAIN_TEX, sourceDir);
+
+    expect(server._testMethods.cleanLatex(latex)).toBe(
+      [
+        '\\title{Test}',
+        '',
+        '## Abstract',
+        '',
+        'We prove everything.',
+        '',
+        '## Introduction',
+        '',
+        'As shown by [smith2020, doe2021],',
+        '\\begin{equation}',
+        '  E = mc^2',
+        '\\end{equation}',
+      ].join('\n')
+    );
+  });
+
+  it('should accept a single gzipped .tex file', async () => {
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: gzipSync(Buffer.from(MAIN_TEX)), status: 200 } as never);
+
+    const result = await server._testMethods.getPaperSource({ paper_id: 'cs/0001001' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.main_file).toBe('main.tex');
+    expect(parsed.content).toContain('\\input{sections/intro}');
+  });
+
+  it('should not follow links in the archive to files outside the source', async () => {
+    const secretPath = path.join(workDir, 'secret.txt');
+    await fs.writeFile(secretPath, 'TOP SECRET');
+    const filesDir = path.join(workDir, 'files');
+    await fs.outputFile(
+      path.join(filesDir, 'main.tex'),
+      '\\documentclass{article}\n\\begin{document}\n\\input{leak}\n\\input{outside/secret.txt}\n\\end{document}'
+    );
+    await fs.symlink(secretPath, path.join(filesDir, 'leak.tex'));
+    await fs.symlink(workDir, path.join(filesDir, 'outside'));
+    const archivePath = path.join(workDir, 'source.tar.gz');
+    await tar.c({ gzip: true, file: archivePath, cwd: filesDir }, ['main.tex', 'leak.tex', 'outside']);
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: await fs.readFile(archivePath), status: 200 } as never);
+
+    const result = await server._testMethods.getPaperSource({ paper_id: '2501.12345' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.main_file).toBe('main.tex');
+    expect(parsed.tex_files).toEqual(['main.tex']);
+    expect(parsed.content).toContain('\\input{leak}');
+    expect(parsed.content).not.toContain('TOP SECRET');
+
+    // A link left in the cache by an older version is not followed either
+    const sourceDir = path.join(mockedServer.sourceCacheDir, '2501.12345');
+    await fs.symlink(secretPath, path.join(sourceDir, 'leak.tex'));
+    const cached = JSON.parse((await server._testMethods.getPaperSource({ paper_id: '2501.12345' })).content[0].text);
+    expect(cached.content).not.toContain('TOP SECRET');
+  });
+
+  it('should fall back to the PDF text when the e-print is a PDF', async () => {
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: Buffer.from('%PDF-1.5 fake'), status: 200 } as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue('Extracted PDF text' as never);
+
+    const result = await server._testMethods.getPaperSource({ paper_id: '2501.12345' });
+
+    expect(result.content[0].text).toContain('No LaTeX source is available for 2501.12345');
+    expect(result.content[1].text).toBe('Extracted PDF text');
+    // The PDF from the e-print request is cached, so getPaperContent does not download it again
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tests for version-aware retrieval and the list_paper_versions/diff_paper_versions tools
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { ArxivServer } from '../src/index.js';
+
+const MOCK_OAI_RECORD = `<?xml version="1.0" encoding="UTF-8"?>
+<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/">
+  <GetRecord>
+    <record>
+      <header><identifier>oai:arXiv.org:1706.03762</identifier></header>
+      <metadata>
+        <arXivRaw xmlns="http://arxiv.org/OAI/arXivRaw/">
+          <id>1706.03762</id>
+          <version version="v1"><date>Mon, 12 Jun 2017 17:57:34 GMT</date><size>1102kb</size></version>
+          <version version="v2"><date>Mon, 19 Jun 2017 16:49:45 GMT</date><size>1125kb</size></version>
+        </arXivRaw>
+      </metadata>
+    </record>
+  </GetRecord>
+</OAI-PMH>`;
+
+describe('paper versions', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+    mockedServer = server as any;
+    mockedServer.requestIntervalMs = 0;
+  });
+
+  it('should list versions from the OAI-PMH submission history', async () => {
+    const mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: MOCK_OAI_RECORD, status: 200 } as never);
+
+    const result = await server._testMethods.listPaperVersions({ paper_id: '1706.03762v7' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      expect.stringContaining('identifier=oai%3AarXiv.org%3A1706.03762&'),
+      expect.any(Object)
+    );
+    expect(parsed).toEqual({
+      paper_id: '1706.03762',
+      latest_version: 'v2',
+      versions: [
+        { version: 'v1', submitted: '2017-06-12T17:57:34.000Z', size: '1102kb' },
+        { version: 'v2', submitted: '2017-06-19T16:49:45.000Z', size: '1125kb' },
+      ],
+    });
+  });
+
+  it('should diff sequences and render inline word diffs', () => {
+    expect(server._testMethods.diffSequences(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+      { removed: ['b'], added: ['x'] },
+      { removed: [], added: ['e'] },
+    ]);
+    expect(server._testMethods.renderInlineDiff('We use a small model here', 'We use a large model')).toBe(
+      'We use a [-small-] {+large+} model [-here-]'
+    );
+    expect(server._testMethods.renderInlineDiff('same', 'same')).toBeNull();
+  });
+
+  it('should align long texts in linear space without losing common items', () => {
+    // Every tenth sentence is dropped and one is added after every seventh: too many changes for one table
+    const before = Array.from({ length: 1200 }, (_, i) => `Sentence ${i}.`);
+    const after = before.flatMap((sentence, i) => [
+      ...(i % 10 === 0 ? [] : [sentence]),
+      ...(i % 7 === 0 ? [`Added ${i}.`] : []),
+    ]);
+    const operations = server._testMethods.diffOperations(before, after);
+
+    expect(operations.filter((operation: any) => operation.type !== 'added').map((operation: any) => operation.item)).toEqual(before);
+    expect(operations.filter((operation: any) => operation.type !== 'removed').map((operation: any) => operation.item)).toEqual(after);
+    expect(operations.filter((operation: any) => operation.type === 'equal')).toHaveLength(1080);
+  });
+
+  it('should diff the abstracts and text of two versions', async () => {
+    mockedServer.queryArxiv = jest.fn().mockResolvedValue({
+      papers: [
+        { arxiv_id: '1706.03762v1', title: 'Attention', summary: 'We propose a new model.', updated: '2017-06-12', comment: null },
+        { arxiv_id: '1706.03762v3', title: 'Attention', summary: 'We propose the Transformer model.', updated: '2017-06-20', comment: '15 pages' },
+      ],
+    } as never);
+    mockedServer.downloadPdf = jest.fn().mockImplementation(async (_url: any, paperId: any) => `/tmp/${paperId}.pdf`);
+    mockedServer.extractTextFromPdf = jest.fn().mockImplementation(async (pdfPath: any) =>
+      pdfPath.includes('v1')
+        ? 'Introduction here. Results were good. The end.'
+        : 'Introduction here. Results were excellent. New appendix. The end.'
+    );
+
+    const result = await server._testMethods.diffPaperVersions({ paper_id: '1706.03762', from_version: 1, to_version: 'v3' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(mockedServer.queryArxiv).toHaveBeenCalledWith({ id_list: '1706.03762v1,1706.03762v3' });
+    expect(parsed.title_diff).toBeNull();
+    expect(parsed.abstract_diff).toBe('We propose [-a new-] {+the Transformer+} model.');
+    expect(parsed.text_diff).toEqual({
+      sentences_removed: 1,
+      sentences_added: 2,
+      unchanged_sentences: 2,
+      changes: [{ removed: ['Results were good.'], added: ['Results were excellent.', 'New appendix.'] }],
+    });
+  });
+});
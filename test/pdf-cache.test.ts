@@ -0,0 +1,71 @@
+/**
+ * Tests for PDF cache management and the list_cached_papers/evict_cached_papers tools
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ArxivServer } from '../src/index.js';
+
+describe('PDF cache management', () => {
+  let server: ArxivServer;
+  let cacheDir: string;
+
+  // Writes a fake cached PDF last accessed the given number of minutes ago
+  const addCachedPdf = async (file: string, sizeBytes: number, minutesAgo: number) => {
+    const pdfPath = path.join(cacheDir, file);
+    await fs.outputFile(pdfPath, Buffer.alloc(sizeBytes));
+    const accessed = new Date(Date.now() - minutesAgo * 60000);
+    await fs.utimes(pdfPath, accessed, accessed);
+  };
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-pdfs-'));
+    (server as any).pdfCacheDir = cacheDir;
+
+    await addCachedPdf('2501.00001.pdf', 400, 30);
+    await addCachedPdf('cs_0001001.pdf', 300, 10);
+    await addCachedPdf('2501.00003.pdf', 200, 20);
+  });
+
+  afterEach(async () => {
+    await fs.remove(cacheDir);
+  });
+
+  it('should list cached papers most recently used first', async () => {
+    const result = await server._testMethods.listCachedPapers();
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.total_size_bytes).toBe(900);
+    expect(parsed.papers.map((paper: any) => paper.paper_id)).toEqual(['cs/0001001', '2501.00003', '2501.00001']);
+    expect(parsed.papers[0].size_bytes).toBe(300);
+  });
+
+  it('should evict least recently used PDFs beyond the size limit', async () => {
+    (server as any).pdfCacheMaxBytes = 550;
+
+    // A cache hit counts as an access, so the oldest PDF is kept
+    (server as any).arxivGet = () => {
+      throw new Error('Cached PDF should not be downloaded');
+    };
+    await server._testMethods.downloadPdf('https://arxiv.org/pdf/2501.00001.pdf', '2501.00001');
+
+    const evicted = await server._testMethods.enforcePdfCacheLimit();
+    expect(evicted).toEqual(['2501.00003', 'cs/0001001']);
+    expect((await fs.readdir(cacheDir)).sort()).toEqual(['2501.00001.pdf']);
+  });
+
+  it('should evict one or all cached papers', async () => {
+    const one = await server._testMethods.evictCachedPapers({ paper_id: 'cs/0001001' });
+    expect(JSON.parse(one.content[0].text)).toEqual({ evicted: ['cs/0001001'], freed_bytes: 300 });
+
+    const missing = await server._testMethods.evictCachedPapers({ paper_id: 'cs/0001001' });
+    expect(missing.isError).toBe(true);
+
+    const all = await server._testMethods.evictCachedPapers({ all: true });
+    expect(JSON.parse(all.content[0].text).freed_bytes).toBe(600);
+    expect(await fs.readdir(cacheDir)).toEqual([]);
+  });
+});
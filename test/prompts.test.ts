@@ -0,0 +1,68 @@
+/**
+ * Tests for the research workflow prompts
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { ArxivServer } from '../src/index.js';
+
+describe('research prompts', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+
+    // Stub the tool methods the prompts are assembled from
+    mockedServer = server as any;
+    mockedServer.searchPapers = jest
+      .fn()
+      .mockResolvedValue({ content: [{ type: 'text', text: '{"papers": ["search result"]}' }] } as never);
+    mockedServer.getPaper = jest
+      .fn()
+      .mockImplementation(async (args: any) => ({
+        content: [{ type: 'text', text: `{"arxiv_id": "${args.paper_id}"}` }],
+      }));
+    mockedServer.getPaperContent = jest
+      .fn()
+      .mockResolvedValue({ content: [{ type: 'text', text: 'Full paper text' }] } as never);
+  });
+
+  it('should list the available prompts', async () => {
+    const result = await server._testMethods.listPrompts();
+
+    expect(result.prompts.map((prompt) => prompt.name)).toEqual([
+      'literature_review',
+      'summarize_paper',
+      'compare_papers',
+    ]);
+  });
+
+  it('should assemble prompts from tool output', async () => {
+    const review = await server._testMethods.getPrompt('literature_review', {
+      topic: 'diffusion models',
+      category: 'cs.LG',
+      max_results: '5',
+    });
+    expect(mockedServer.searchPapers).toHaveBeenCalledWith({
+      query: 'diffusion models',
+      category: 'cs.LG',
+      max_results: 5,
+    });
+    expect(review.messages[0].content.text).toContain('search result');
+
+    const summary = await server._testMethods.getPrompt('summarize_paper', { paper_id: '2501.12345' });
+    expect(summary.messages[0].content.text).toContain('"arxiv_id": "2501.12345"');
+    expect(summary.messages[0].content.text).toContain('Full paper text');
+
+    const comparison = await server._testMethods.getPrompt('compare_papers', { id_a: '1111.1111', id_b: '2222.2222' });
+    expect(comparison.messages[0].content.text).toContain('## Paper A (1111.1111)');
+    expect(comparison.messages[0].content.text).toContain('## Paper B (2222.2222)');
+  });
+
+  it('should reject unknown prompts and missing arguments', async () => {
+    await expect(server._testMethods.getPrompt('unknown', {})).rejects.toThrow('Unknown prompt');
+    await expect(server._testMethods.getPrompt('compare_papers', { id_a: '1111.1111' })).rejects.toThrow(
+      'Missing required argument: id_b'
+    );
+  });
+});
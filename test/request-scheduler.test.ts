@@ -0,0 +1,74 @@
+/**
+ * Tests for the rate-limited arXiv request queue
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import axios from 'axios';
+import { ArxivServer } from '../src/index.js';
+
+describe('arXiv request scheduler', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+
+    // Reset mocks
+    jest.clearAllMocks();
+
+    // Shorten the interval and backoff so the tests run quickly
+    const mockedServer = server as any;
+    mockedServer.requestIntervalMs = 100;
+    mockedServer.retryBaseDelayMs = 10;
+
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: 'ok', status: 200 } as never);
+  });
+
+  it('should space out parallel requests by the minimum interval', async () => {
+    const startTimes: number[] = [];
+    mockedAxios.get.mockImplementation(async () => {
+      startTimes.push(Date.now());
+      return { data: 'ok', status: 200 };
+    });
+
+    await Promise.all([
+      server._testMethods.arxivGet('http://export.arxiv.org/api/query?a'),
+      server._testMethods.arxivGet('http://export.arxiv.org/api/query?b'),
+      server._testMethods.arxivGet('http://export.arxiv.org/api/query?c'),
+    ]);
+
+    expect(startTimes).toHaveLength(3);
+    expect(startTimes[1] - startTimes[0]).toBeGreaterThanOrEqual(95);
+    expect(startTimes[2] - startTimes[1]).toBeGreaterThanOrEqual(95);
+  });
+
+  it('should retry transient failures and honour Retry-After', async () => {
+    mockedAxios.get
+      .mockRejectedValueOnce({ isAxiosError: true, message: 'Service Unavailable', response: { status: 503, headers: { 'retry-after': '0.3' } } })
+      .mockRejectedValueOnce({ isAxiosError: true, message: 'socket hang up', code: 'ECONNRESET' });
+
+    const startedAt = Date.now();
+    const response = await server._testMethods.arxivGet('http://export.arxiv.org/api/query');
+
+    expect(response.data).toBe('ok');
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(295);
+  });
+
+  it('should not retry client errors and give up after the retry limit', async () => {
+    mockedAxios.get.mockRejectedValueOnce({ isAxiosError: true, message: 'Bad Request', response: { status: 400, headers: {} } });
+    await expect(server._testMethods.arxivGet('http://export.arxiv.org/api/query')).rejects.toMatchObject({
+      response: { status: 400 },
+    });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+
+    mockedAxios.get.mockReset();
+    mockedAxios.get.mockRejectedValue({ isAxiosError: true, message: 'Bad Gateway', response: { status: 502, headers: {} } });
+    (server as any).requestIntervalMs = 0;
+    await expect(server._testMethods.arxivGet('http://export.arxiv.org/api/query')).rejects.toMatchObject({
+      response: { status: 502 },
+    });
+    expect(mockedAxios.get).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for papers exposed as MCP resources
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import { ArxivServer } from '../src/index.js';
+
+describe('paper resources', () => {
+  let server: ArxivServer;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+
+    // Reset mocks
+    jest.clearAllMocks();
+
+    // Spies rather than assignments, so the stubs do not leak into other tests sharing fs-extra
+    jest.spyOn(fs, 'pathExists').mockResolvedValue(true as never);
+    jest.spyOn(fs, 'readdir').mockResolvedValue(['2501.12345.pdf', 'cs_0001001.pdf', 'notes.txt'] as never);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should list cached PDFs as metadata and full text resources', async () => {
+    const result = await server._testMethods.listResources();
+
+    expect(result.resources.map((resource) => resource.uri)).toEqual([
+      'arxiv://paper/2501.12345',
+      'arxiv://paper/2501.12345/fulltext',
+      'arxiv://paper/cs/0001001',
+      'arxiv://paper/cs/0001001/fulltext',
+    ]);
+  });
+
+  it('should expose metadata and full text resource templates', async () => {
+    const result = await server._testMethods.listResourceTemplates();
+
+    expect(result.resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'arxiv://paper/{id}',
+      'arxiv://paper/{id}/fulltext',
+    ]);
+  });
+
+  it('should read metadata and full text resources', async () => {
+    const mockedServer = server as any;
+    mockedServer.queryArxiv = jest.fn().mockResolvedValue({ papers: [{ arxiv_id: 'cs/0001001' }] } as never);
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue('Some\n  extracted   text' as never);
+
+    const metadata = await server._testMethods.readResource('arxiv://paper/cs%2F0001001');
+    expect(mockedServer.queryArxiv).toHaveBeenCalledWith({ id_list: 'cs/0001001' });
+    expect(metadata.contents[0].mimeType).toBe('application/json');
+
+    const fulltext = await server._testMethods.readResource('arxiv://paper/cs/0001001/fulltext');
+    expect(mockedServer.downloadPdf).toHaveBeenCalledWith('https://arxiv.org/pdf/cs/0001001.pdf', 'cs/0001001');
+    expect(fulltext.contents[0].text).toBe('Some extracted text');
+
+    await expect(server._testMethods.readResource('https://example.com')).rejects.toThrow('Unknown resource URI');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Tests for saved searches and the check_saved_search tool
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('saved searches', () => {
+  let server: ArxivServer;
+  let mockedAxios: any;
+  let workDir: string;
+  let savedSearchesPath: string;
+  let bothPapers: string;
+  let olderPaperOnly: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    (server as any).requestIntervalMs = 0;
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-saved-searches-'));
+    savedSearchesPath = path.join(workDir, 'saved-searches.json');
+    (server as any).savedSearchesPath = savedSearchesPath;
+
+    bothPapers = await fs.readFile(MOCK_METADATA_PATH, 'utf-8');
+    // The same feed before 1706.03762 was submitted
+    olderPaperOnly = bothPapers.replace(/<entry>\s*<id>http:\/\/arxiv\.org\/abs\/1706\.03762v7<\/id>[\s\S]*?<\/entry>/, '');
+    mockedAxios = axios as any;
+    mockedAxios.get = jest.fn().mockResolvedValue({ data: bothPapers, status: 200 } as never);
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should save a search sorted by submission date by default', async () => {
+    const result = await server._testMethods.saveSearch({
+      name: ' transformers ',
+      search: { title: 'attention', category: 'cs.CL', bypass_cache: true },
+    });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.saved).toBe(true);
+    expect(parsed.search).toEqual(
+      expect.objectContaining({
+        name: 'transformers',
+        search: { title: 'attention', category: 'cs.CL', sort_by: 'submittedDate', sort_order: 'descending' },
+        last_checked_at: null,
+        seen_count: 0,
+      })
+    );
+
+    const stored = await fs.readJson(savedSearchesPath);
+    expect(Object.keys(stored.searches)).toEqual(['transformers']);
+  });
+
+  it('should reject a search without criteria or with a malformed expression', async () => {
+    await expect(server._testMethods.saveSearch({ name: 'empty', search: { max_results: 5 } })).rejects.toThrow(
+      /at least one search criterion/
+    );
+    await expect(
+      server._testMethods.saveSearch({ name: 'broken', search: { query_expression: 'ti:(learning' } })
+    ).rejects.toThrow();
+    expect(await fs.pathExists(savedSearchesPath)).toBe(false);
+  });
+
+  it('should return only papers not seen by earlier checks', async () => {
+    await server._testMethods.saveSearch({ name: 'daily', search: { query: 'learning' } });
+
+    mockedAxios.get.mockResolvedValueOnce({ data: olderPaperOnly, status: 200 } as never);
+    const first = JSON.parse((await server._testMethods.checkSavedSearch({ name: 'daily' })).content[0].text);
+    expect(first.last_checked_at).toBeNull();
+    expect(first.papers.map((paper: any) => paper.arxiv_id)).toEqual(['cs/0001001v1']);
+
+    const second = JSON.parse((await server._testMethods.checkSavedSearch({ name: 'daily' })).content[0].text);
+    expect(second.last_checked_at).toBe(first.checked_at);
+    expect(second.new_count).toBe(1);
+    expect(second.papers.map((paper: any) => paper.arxiv_id)).toEqual(['1706.03762v7']);
+
+    const third = JSON.parse((await server._testMethods.checkSavedSearch({ name: 'daily' })).content[0].text);
+    expect(third.papers).toEqual([]);
+
+    // Checks always go to arXiv rather than the metadata cache
+    expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+    const stored = await fs.readJson(savedSearchesPath);
+    expect(stored.searches.daily.seen_ids.sort()).toEqual(['1706.03762', 'cs/0001001']);
+  });
+
+  it('should not hold up other saved search and library tools while asking arXiv', async () => {
+    (server as any).libraryPath = path.join(workDir, 'library.json');
+    await server._testMethods.saveSearch({ name: 'daily', search: { query: 'learning' } });
+
+    let respond: (value: unknown) => void = () => undefined;
+    mockedAxios.get.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)));
+    const check = server._testMethods.checkSavedSearch({ name: 'daily' });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+
+    const listed = JSON.parse((await server._testMethods.listSavedSearches()).content[0].text);
+    expect(listed.searches[0]).toEqual(expect.objectContaining({ name: 'daily', seen_count: 0 }));
+    const library = JSON.parse((await server._testMethods.listLibrary({})).content[0].text);
+    expect(library.total_saved).toBe(0);
+
+    respond({ data: bothPapers, status: 200 });
+    const checked = JSON.parse((await check).content[0].text);
+    expect(checked.new_count).toBe(2);
+    const stored = await fs.readJson(savedSearchesPath);
+    expect(stored.searches.daily.seen_ids).toHaveLength(2);
+  });
+
+  it('should list and delete saved searches, leaving seen papers unmarked on request', async () => {
+    await server._testMethods.saveSearch({ name: 'b-search', search: { author: 'Jane Doe' } });
+    await server._testMethods.saveSearch({ name: 'a-search', search: { author: 'Vaswani' } });
+
+    const peek = JSON.parse(
+      (await server._testMethods.checkSavedSearch({ name: 'a-search', mark_seen: false })).content[0].text
+    );
+    expect(peek.new_count).toBe(2);
+
+    const listed = JSON.parse((await server._testMethods.listSavedSearches()).content[0].text);
+    expect(listed.searches.map((entry: any) => entry.name)).toEqual(['a-search', 'b-search']);
+    expect(listed.searches[0]).toEqual(expect.objectContaining({ last_checked_at: null, seen_count: 0 }));
+    expect(listed.searches[0].seen_ids).toBeUndefined();
+
+    const deleted = await server._testMethods.deleteSavedSearch({ name: 'b-search' });
+    expect(JSON.parse(deleted.content[0].text)).toEqual({ name: 'b-search', deleted: true });
+
+    const missing = await server._testMethods.checkSavedSearch({ name: 'b-search' });
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toMatch(/No saved search named "b-search"/);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for the full-text index and the search_library tool
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ArxivServer } from '../src/index.js';
+
+const PAPERS: Record<string, string> = {
+  '2501.00001': 'We train encoders with a contrastive loss.\nThe contrastive losses pull positive pairs together.',
+  '2501.00002': 'A study of reinforcement learning. The loss is a standard cross-entropy loss.',
+  '2501.00003': 'Graph neural networks for molecules.',
+};
+
+describe('search_library', () => {
+  let server: ArxivServer;
+  let mockedServer: any;
+  let indexDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    mockedServer = server as any;
+    indexDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-index-'));
+    mockedServer.fulltextIndexDir = indexDir;
+
+    for (const [paperId, text] of Object.entries(PAPERS)) {
+      await server._testMethods.indexPaperText(paperId, text);
+    }
+  });
+
+  afterEach(async () => {
+    await fs.remove(indexDir);
+  });
+
+  it('should fold plurals and drop stop words when tokenizing', () => {
+    expect(server._testMethods.tokenize('The contrastive Losses of studies and classes')).toEqual([
+      'contrastive',
+      'loss',
+      'study',
+      'class',
+    ]);
+  });
+
+  it('should rank papers by BM25 and return snippets', async () => {
+    const result = await server._testMethods.searchLibrary({ query: 'contrastive loss' });
+    const parsed = JSON.parse(result.content[0].text);
+
+    expect(parsed.indexed_papers).toBe(3);
+    expect(parsed.results.map((r: any) => r.paper_id)).toEqual(['2501.00001', '2501.00002']);
+    expect(parsed.results[0].matched_terms).toEqual(['contrastive', 'loss']);
+    expect(parsed.results[0].score).toBeGreaterThan(parsed.results[1].score);
+    expect(parsed.results[0].snippets).toEqual([
+      'We train encoders with a contrastive loss. The contrastive losses pull positive pairs together.',
+    ]);
+  });
+
+  it('should persist the index and replace re-indexed papers', async () => {
+    await server._testMethods.indexPaperText('2501.00003', 'Contrastive learning on graphs.');
+
+    // A fresh server reads the index back from disk
+    const reloaded = new ArxivServer();
+    (reloaded as any).fulltextIndexDir = indexDir;
+    const parsed = JSON.parse((await reloaded._testMethods.searchLibrary({ query: 'graph', limit: 5 })).content[0].text);
+
+    expect(parsed.indexed_papers).toBe(3);
+    expect(parsed.results).toEqual([
+      expect.objectContaining({ paper_id: '2501.00003', snippets: ['Contrastive learning on graphs.'] }),
+    ]);
+    const stored = await fs.readJson(path.join(indexDir, 'index.json'));
+    expect(stored.postings.molecule).toBeUndefined();
+  });
+
+  it('should only rewrite the index when the text of a paper changes', async () => {
+    const outputJson = jest.spyOn(fs, 'outputJson');
+
+    await server._testMethods.indexPaperText('2501.00003', PAPERS['2501.00003']);
+    expect(outputJson).not.toHaveBeenCalled();
+
+    // Same length, different words
+    await server._testMethods.indexPaperText('2501.00003', 'Graph neural networks for materials.');
+    expect(outputJson).toHaveBeenCalledTimes(1);
+    outputJson.mockRestore();
+  });
+
+  it('should index papers read with get_paper_content', async () => {
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue('Diffusion models for robotics.' as never);
+
+    await server._testMethods.getPaperContent({ paper_id: '2501.00004' });
+    const parsed = JSON.parse((await server._testMethods.searchLibrary({ query: 'diffusion' })).content[0].text);
+
+    expect(parsed.results.map((r: any) => r.paper_id)).toEqual(['2501.00004']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for the boolean query language of the search_papers tool
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { ArxivServer } from '../src/index.js';
+
+describe('search_papers query building', () => {
+  let server: ArxivServer;
+
+  beforeEach(() => {
+    server = new ArxivServer();
+  });
+
+  it('should OR multiple values for one field and AND the fields together', () => {
+    const query = server._testMethods.buildSearchQuery({
+      category: ['cs.LG', 'stat.ML'],
+      author: 'Yann LeCun',
+      title: 'learning',
+    });
+
+    expect(query).toBe('(cat:cs.LG+OR+cat:stat.ML)+AND+au:"Yann LeCun"+AND+ti:learning');
+  });
+
+  it('should serialize a structured query tree', () => {
+    const query = server._testMethods.buildSearchQuery({
+      query_tree: {
+        op: 'ANDNOT',
+        terms: [
+          {
+            op: 'AND',
+            terms: [
+              { op: 'OR', terms: [{ field: 'author', value: 'Alice Smith' }, { field: 'au', value: 'Bob' }] },
+              { field: 'abstract', value: 'graph neural "networks"' },
+            ],
+          },
+          { field: 'title', value: 'survey' },
+        ],
+      },
+    });
+
+    expect(query).toBe('((au:"Alice Smith"+OR+au:Bob)+AND+abs:"graph neural networks")+ANDNOT+ti:survey');
+    expect(() =>
+      server._testMethods.serializeQueryNode({ op: 'ANDNOT', terms: [{ field: 'ti', value: 'x' }] })
+    ).toThrow('ANDNOT');
+    expect(() => server._testMethods.serializeQueryNode({ field: 'journal', value: 'x' })).toThrow(
+      'Unknown search field'
+    );
+    expect(() => server._testMethods.serializeQueryNode({ field: 'constructor', value: 'x' })).toThrow(
+      'Unknown search field'
+    );
+  });
+
+  it('should validate and normalize a raw query expression', () => {
+    const parseQueryExpression = server._testMethods.parseQueryExpression;
+
+    expect(parseQueryExpression('(au:"Yann LeCun" OR au:Bengio) AND ti:learning ANDNOT cat:cs.CV')).toBe(
+      '(au:"Yann LeCun"+OR+au:Bengio)+AND+ti:learning+ANDNOT+cat:cs.CV'
+    );
+    expect(parseQueryExpression('au:del_maestro+AND+ti:checkerboard')).toBe('au:del_maestro+AND+ti:checkerboard');
+
+    expect(() => parseQueryExpression('(au:Bengio OR ti:learning')).toThrow('Unbalanced parentheses');
+    expect(() => parseQueryExpression('au:Bengio ti:learning')).toThrow('Expected AND, OR or ANDNOT');
+    expect(() => parseQueryExpression('au:Bengio AND')).toThrow('Incomplete query_expression');
+    expect(() => parseQueryExpression('foo:bar')).toThrow('Unknown search field');
+    expect(() => parseQueryExpression('toString:bar')).toThrow('Unknown search field');
+  });
+
+  it('should group a query expression combined with other fields', () => {
+    const query = server._testMethods.buildSearchQuery({
+      category: 'cs.AI',
+      query_expression: 'au:Smith OR au:Jones',
+    });
+
+    expect(query).toBe('cat:cs.AI+AND+(au:Smith+OR+au:Jones)');
+  });
+
+  it('should fold date range filters into the query', () => {
+    const query = server._testMethods.buildSearchQuery({
+      category: 'cs.CL',
+      submitted_after: '2025-01-08',
+      submitted_before: '2025-01-15T10:30:00+02:00',
+    });
+
+    expect(query).toBe('cat:cs.CL+AND+submittedDate:[202501080000+TO+202501150830]');
+    expect(server._testMethods.buildDateRangeTerms({ updated_before: '2025-01-15' })).toEqual([
+      'lastUpdatedDate:[199101010000+TO+202501152359]',
+    ]);
+    expect(server._testMethods.buildDateRangeTerms({ submitted_after: '2025-01-01' })).toEqual([
+      'submittedDate:[202501010000+TO+999912312359]',
+    ]);
+    expect(server._testMethods.parseQueryExpression('cat:cs.CL AND submittedDate:[202501010000 TO 202501312359]')).toBe(
+      'cat:cs.CL+AND+submittedDate:[202501010000+TO+202501312359]'
+    );
+  });
+
+  it('should reject invalid date filters', () => {
+    const buildDateRangeTerms = server._testMethods.buildDateRangeTerms;
+
+    expect(() => buildDateRangeTerms({ submitted_after: 'last week' })).toThrow('Invalid submitted_after');
+    expect(() => buildDateRangeTerms({ updated_after: '2025-02-30' })).toThrow('not a real date');
+    expect(() => buildDateRangeTerms({ submitted_after: '2025-02-01', submitted_before: '2025-01-01' })).toThrow(
+      'must not be later than'
+    );
+  });
+});
@@ -4,6 +4,7 @@
 
 import path from 'path';
 import fs from 'fs-extra';
+import os from 'os';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
@@ -11,6 +12,15 @@ import { dirname } from 'path';
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Keep the metadata cache out of tests - each test expects its queries to reach axios
+process.env.ARXIV_PAPER_CACHE_TTL_SECONDS = '0';
+process.env.ARXIV_SEARCH_CACHE_TTL_SECONDS = '0';
+
+// Papers read during tests are indexed for search_library - keep that index out of the working tree.
+// Each test file gets its own directory, removed after its tests
+const FULLTEXT_INDEX_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'arxiv-fulltext-'));
+process.env.ARXIV_FULLTEXT_INDEX_DIR = FULLTEXT_INDEX_DIR;
+
 // Mock data paths
 export const MOCK_ARXIV_RESPONSE_PATH = path.join(__dirname, 'data', 'mock-arxiv-response.xml');
 export const MOCK_PAPER_PATH = path.join(__dirname, 'data', 'mock-paper.txt');
@@ -101,4 +111,5 @@ beforeAll(() => {
 
 afterAll(() => {
   // Global teardown code
+  fs.removeSync(FULLTEXT_INDEX_DIR);
 });
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * Tests for structured tool output, checked against each tool's outputSchema by the SDK client
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { ArxivServer } from '../src/index.js';
+
+const MOCK_METADATA_PATH = path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'mock-arxiv-metadata.xml');
+
+describe('structured tool output', () => {
+  let server: ArxivServer;
+  let client: Client;
+  let workDir: string;
+
+  beforeEach(async () => {
+    server = new ArxivServer();
+    const mockedServer = server as any;
+    mockedServer.requestIntervalMs = 0;
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'arxiv-structured-'));
+    mockedServer.metadataCacheDir = path.join(workDir, 'metadata');
+    mockedServer.fulltextIndexDir = path.join(workDir, 'fulltext');
+    mockedServer.libraryPath = path.join(workDir, 'library.json');
+
+    const metadata = await fs.readFile(MOCK_METADATA_PATH, 'utf-8');
+    (axios as any).get = jest.fn().mockResolvedValue({ data: metadata, status: 200 } as never);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await mockedServer.createServer().connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+    // The client validates structuredContent against the outputSchema of tools it has listed
+    await client.listTools();
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.remove(workDir);
+  });
+
+  it('should declare an object outputSchema for every tool', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.length).toBeGreaterThan(0);
+    for (const tool of tools) {
+      expect(tool.outputSchema).toEqual(expect.objectContaining({ type: 'object' }));
+    }
+  });
+
+  it('should return search results as structuredContent with the same JSON as text', async () => {
+    const result = await client.callTool({ name: 'search_papers', arguments: { query: 'attention' } });
+    const content = result.content as { type: string; text: string }[];
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual(JSON.parse(content[0].text));
+    expect((result.structuredContent as any).papers[0]).toEqual(
+      expect.objectContaining({ arxiv_id: '1706.03762v7', primary_category: 'cs.CL', version: 7 })
+    );
+
+    const batch = await client.callTool({ name: 'get_papers', arguments: { paper_ids: ['1706.03762v7', 'not an id'] } });
+    expect((batch.structuredContent as any).results.map((r: any) => r.status)).toEqual(['found', 'invalid_id']);
+
+    const saved = await client.callTool({ name: 'save_paper', arguments: { paper_id: '1706.03762', tags: ['Transformers'] } });
+    expect((saved.structuredContent as any).entry).toEqual(
+      expect.objectContaining({ paper_id: '1706.03762', tags: ['transformers'] })
+    );
+  });
+
+  it('should keep plain text content while structuring it for clients that read structuredContent', async () => {
+    const mockedServer = server as any;
+    mockedServer.downloadPdf = jest.fn().mockResolvedValue('/tmp/mock.pdf' as never);
+    mockedServer.extractTextFromPdf = jest.fn().mockResolvedValue('Attention\n  is all   you need' as never);
+
+    const result = await client.callTool({ name: 'get_paper_content', arguments: { paper_id: '1706.03762' } });
+    const content = result.content as { type: string; text: string }[];
+
+    expect(content).toEqual([{ type: 'text', text: 'Attention is all you need' }]);
+    expect(result.structuredContent).toEqual({ paper_id: '1706.03762', text: 'Attention is all you need' });
+  });
+
+  it('should report an unreadable arXiv response as an error without structured content', async () => {
+    (axios as any).get = jest.fn().mockResolvedValue({ data: '<html>Service unavailable</html>', status: 200 } as never);
+
+    const result = await client.callTool({ name: 'search_papers', arguments: { query: 'attention', bypass_cache: true } });
+    const content = result.content as { type: string; text: string }[];
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect(JSON.parse(content[0].text).error).toBe('Failed to parse arXiv response');
+  });
+});